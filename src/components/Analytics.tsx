@@ -1,7 +1,17 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
 import { 
   BarChart3, 
   TrendingUp, 
@@ -10,32 +20,102 @@ import {
   BookOpen,
   Brain,
   Award,
-  Calendar
+  Calendar,
+  Timer,
+  Archive,
+  Bug,
+  Pencil,
+  PauseCircle,
+  PlayCircle,
+  History,
+  Hourglass,
+  CalendarRange
 } from "lucide-react";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { buildExamReport, EXAM_ATTEMPTS_KEY, ExamAttempt, formatDuration } from "@/lib/exam";
+import { Flashcard } from "@/lib/flashcard";
+import { buildForecast, FORECAST_RANGES } from "@/lib/forecast";
+import { getTotalLapses, isLeech } from "@/lib/leech";
+import { getLeitnerBox } from "@/lib/leitner";
+import { buildRecallStats, formatRecallTime } from "@/lib/recallTime";
+import { getReviewsInRange, ReviewLogEntry } from "@/lib/reviewLog";
+import { isBuried } from "@/lib/session";
+import { getSessionDuration, SESSION_ARCHIVE_KEY, StudySession } from "@/lib/studySession";
+import { StudySettings } from "@/lib/settings";
+import { buildStudyItems } from "@/lib/studyItems";
 
-interface Flashcard {
-  id: string;
-  question: string;
-  answer: string;
-  tags: string[];
-  mastered: boolean;
-  reviewCount: number;
-  lastReviewed?: Date;
-}
+const BOX_CHART_CONFIG = {
+  cards: { label: "Cards", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+// Shades for the forecast's tag lines, busiest tag darkest
+const FORECAST_COLORS = [
+  "hsl(var(--primary))",
+  "hsl(var(--success))",
+  "hsl(var(--warning))",
+  "hsl(var(--primary) / 0.3)",
+  "hsl(var(--border))",
+];
 
 interface AnalyticsProps {
   flashcards: Flashcard[];
+  settings: StudySettings;
+  reviewLog: ReviewLogEntry[];
+  onEditCard: (cardId: string) => void;
+  onFlashcardUpdate: (flashcard: Flashcard, label?: string) => void;
 }
 
-export const Analytics = ({ flashcards }: AnalyticsProps) => {
+export const Analytics = ({ flashcards, settings, reviewLog, onEditCard, onFlashcardUpdate }: AnalyticsProps) => {
+  const [examAttempts] = useLocalStorage<ExamAttempt[]>(EXAM_ATTEMPTS_KEY, []);
+  const [sessionArchive] = useLocalStorage<StudySession[]>(SESSION_ARCHIVE_KEY, []);
+
+  // Totals over every finished study session, plus the latest few
+  const sessionStats = useMemo(() => {
+    const totalTime = sessionArchive.reduce((sum, session) => sum + getSessionDuration(session), 0);
+    const totalReviews = sessionArchive.reduce((sum, session) => sum + session.cardsReviewed, 0);
+    return {
+      count: sessionArchive.length,
+      totalTime,
+      averageReviews: sessionArchive.length > 0 ? totalReviews / sessionArchive.length : 0,
+      recent: [...sessionArchive].sort((a, b) => b.startTime - a.startTime).slice(0, 5),
+    };
+  }, [sessionArchive]);
+
+  const [forecastDays, setForecastDays] = useState(FORECAST_RANGES[0]);
+  const forecast = useMemo(
+    () => buildForecast(buildStudyItems(flashcards, settings.tagDirections), forecastDays, settings.dayStartHour),
+    [flashcards, settings.tagDirections, settings.dayStartHour, forecastDays]
+  );
+  const forecastConfig = useMemo(
+    () => forecast.series.reduce((config, series, index) => {
+      config[series.key] = { label: series.label, color: FORECAST_COLORS[index % FORECAST_COLORS.length] };
+      return config;
+    }, { total: { label: "All cards", color: "hsl(var(--muted))" } } as ChartConfig),
+    [forecast.series]
+  );
+
+  const recallStats = useMemo(() => buildRecallStats(reviewLog, flashcards), [reviewLog, flashcards]);
+  const slowCardCount = recallStats.cards.filter(stats => stats.slow).length;
+
+  // Newest exam attempts first
+  const recentExams = useMemo(
+    () => [...examAttempts]
+      .sort((a, b) => b.startedAt - a.startedAt)
+      .slice(0, 10)
+      .map(attempt => ({ attempt, report: buildExamReport(attempt) })),
+    [examAttempts]
+  );
+
   const analytics = useMemo(() => {
-    const totalCards = flashcards.length;
-    const masteredCards = flashcards.filter(card => card.mastered).length;
-    const reviewedCards = flashcards.filter(card => card.reviewCount > 0).length;
-    const totalReviews = flashcards.reduce((sum, card) => sum + card.reviewCount, 0);
+    // Cards studied in both directions count once per direction
+    const items = buildStudyItems(flashcards, settings.tagDirections);
+    const totalCards = items.length;
+    const masteredCards = items.filter(card => card.mastered).length;
+    const reviewedCards = items.filter(card => card.reviewCount > 0).length;
+    const totalReviews = items.reduce((sum, card) => sum + card.reviewCount, 0);
     
     // Tag analytics
-    const tagStats = flashcards.reduce((acc, card) => {
+    const tagStats = items.reduce((acc, card) => {
       card.tags.forEach(tag => {
         if (!acc[tag]) {
           acc[tag] = { total: 0, mastered: 0, reviews: 0 };
@@ -48,19 +128,40 @@ export const Analytics = ({ flashcards }: AnalyticsProps) => {
     }, {} as Record<string, { total: number; mastered: number; reviews: number }>);
 
     // Most studied cards
-    const mostStudied = [...flashcards]
+    const mostStudied = [...items]
       .sort((a, b) => b.reviewCount - a.reviewCount)
       .slice(0, 5);
 
-    // Recent activity (last 7 days)
+    // Recent activity (last 7 days), counting every answer in the review log
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
     
-    const recentActivity = flashcards.filter(card => 
-      card.lastReviewed && card.lastReviewed > sevenDaysAgo
-    ).length;
+    const recentReviews = getReviewsInRange(reviewLog, sevenDaysAgo.getTime());
+    const recentActivity = recentReviews.length;
+    const recentCards = new Set(recentReviews.map(entry => entry.cardId)).size;
+
+    // Cards per Leitner box; unstudied cards start in box 1
+    const boxDistribution = settings.leitner.boxIntervals.map((interval, index) => ({
+      box: `Box ${index + 1}`,
+      interval,
+      cards: 0,
+    }));
+    items.forEach(card => {
+      boxDistribution[getLeitnerBox(card, settings.leitner) - 1].cards++;
+    });
+
+    // Leeches, most forgotten first
+    const leeches = flashcards
+      .filter(isLeech)
+      .map(card => ({ card, lapses: getTotalLapses(card) }))
+      .sort((a, b) => b.lapses - a.lapses);
+
+    // Cards taken out of rotation from the study screen
+    const suspendedCards = flashcards.filter(card => card.suspended);
+    const buriedCount = flashcards.filter(card => !card.suspended && isBuried(card, settings.dayStartHour)).length;
 
     return {
+      flashcardCount: flashcards.length,
       totalCards,
       masteredCards,
       reviewedCards,
@@ -68,10 +169,15 @@ export const Analytics = ({ flashcards }: AnalyticsProps) => {
       tagStats,
       mostStudied,
       recentActivity,
+      recentCards,
+      boxDistribution,
+      leeches,
+      suspendedCards,
+      buriedCount,
       completionRate: totalCards > 0 ? (masteredCards / totalCards) * 100 : 0,
       averageReviews: reviewedCards > 0 ? totalReviews / reviewedCards : 0,
     };
-  }, [flashcards]);
+  }, [flashcards, reviewLog, settings.tagDirections, settings.leitner, settings.dayStartHour]);
 
   const topTags = Object.entries(analytics.tagStats)
     .sort(([,a], [,b]) => b.total - a.total)
@@ -96,10 +202,15 @@ export const Analytics = ({ flashcards }: AnalyticsProps) => {
               <BookOpen className="h-4 w-4 text-primary" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{analytics.totalCards}</div>
+              <div className="text-2xl font-bold">{analytics.flashcardCount}</div>
               <p className="text-xs text-muted-foreground">
-                {analytics.reviewedCards} reviewed
+                {analytics.totalCards} study items • {analytics.reviewedCards} reviewed
               </p>
+              {(analytics.suspendedCards.length > 0 || analytics.buriedCount > 0) && (
+                <p className="text-xs text-muted-foreground">
+                  {analytics.suspendedCards.length} suspended • {analytics.buriedCount} buried today
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -137,7 +248,7 @@ export const Analytics = ({ flashcards }: AnalyticsProps) => {
             <CardContent>
               <div className="text-2xl font-bold">{analytics.recentActivity}</div>
               <p className="text-xs text-muted-foreground">
-                Last 7 days
+                Reviews of {analytics.recentCards} {analytics.recentCards === 1 ? "card" : "cards"} in the last 7 days
               </p>
             </CardContent>
           </Card>
@@ -209,6 +320,11 @@ export const Analytics = ({ flashcards }: AnalyticsProps) => {
                         <span className="text-xs text-muted-foreground">
                           {card.reviewCount} reviews
                         </span>
+                        {card.direction === 'reverse' && (
+                          <Badge variant="outline" className="text-xs">
+                            Reverse
+                          </Badge>
+                        )}
                         {card.mastered && (
                           <Badge variant="outline" className="text-xs border-success text-success">
                             <Award className="w-3 h-3 mr-1" />
@@ -244,6 +360,304 @@ export const Analytics = ({ flashcards }: AnalyticsProps) => {
           </Card>
         </div>
 
+        {/* Review Forecast */}
+        {analytics.reviewedCards > 0 && (
+          <Card className="flashcard mt-8">
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarRange className="w-5 h-5 text-primary" />
+                  Review Forecast
+                </CardTitle>
+                <div className="flex gap-1">
+                  {FORECAST_RANGES.map(days => (
+                    <Button
+                      key={days}
+                      size="sm"
+                      variant={forecastDays === days ? "default" : "outline"}
+                      onClick={() => setForecastDays(days)}
+                    >
+                      {days} days
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {forecast.total} {forecast.total === 1 ? "review" : "reviews"} due in the next {forecastDays} days,
+                {" "}{forecast.days[0].total} of them today (including overdue cards).
+                {" "}Bars show all due cards; each tag's line counts every card with that tag, so cards with
+                several tags appear on several lines.
+              </p>
+              <ChartContainer config={forecastConfig} className="h-[280px] w-full">
+                <ComposedChart data={forecast.days}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="total" fill="var(--color-total)" radius={4} />
+                  {forecast.series.map(series => (
+                    <Line
+                      key={series.key}
+                      dataKey={series.key}
+                      type="monotone"
+                      stroke={`var(--color-${series.key})`}
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  ))}
+                </ComposedChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Leitner Boxes */}
+        {settings.scheduler === 'leitner' && analytics.totalCards > 0 && (
+          <Card className="flashcard mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Archive className="w-5 h-5 text-primary" />
+                Leitner Boxes
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={BOX_CHART_CONFIG} className="h-[240px] w-full">
+                <BarChart data={analytics.boxDistribution}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="box" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(label, payload) =>
+                          `${label} • every ${payload[0]?.payload.interval} days`
+                        }
+                      />
+                    }
+                  />
+                  <Bar dataKey="cards" fill="var(--color-cards)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Leeches */}
+        {analytics.leeches.length > 0 && (
+          <Card className="flashcard mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Bug className="w-5 h-5 text-destructive" />
+                Leeches
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Cards forgotten {settings.leech.threshold} or more times. Rewriting or splitting them usually helps.
+              </p>
+              {analytics.leeches.map(({ card, lapses }) => (
+                <div key={card.id} className="flex items-center justify-between gap-4 p-3 bg-gradient-card rounded-lg">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{card.question}</p>
+                    <div className="flex items-center gap-2 mt-1">
+                      <span className="text-xs text-muted-foreground">{lapses} lapses</span>
+                      {card.suspended && (
+                        <Badge variant="outline" className="text-xs border-warning text-warning">
+                          Suspended
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => onEditCard(card.id)}>
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Edit
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Suspended Cards */}
+        {analytics.suspendedCards.length > 0 && (
+          <Card className="flashcard mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <PauseCircle className="w-5 h-5 text-warning" />
+                Suspended Cards
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {analytics.suspendedCards.map(card => (
+                <div key={card.id} className="flex items-center justify-between gap-4 p-3 bg-gradient-card rounded-lg">
+                  <p className="text-sm font-medium truncate min-w-0">{card.question}</p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onFlashcardUpdate({ ...card, suspended: false }, 'Unsuspend card')}
+                  >
+                    <PlayCircle className="w-4 h-4 mr-2" />
+                    Unsuspend
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Recall Time */}
+        {recallStats.overall.count > 0 && (
+          <Card className="flashcard mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Hourglass className="w-5 h-5 text-primary" />
+                Recall Time
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <p className="text-sm text-muted-foreground">
+                Time from seeing a card to revealing the answer • {formatRecallTime(recallStats.overall.medianMs)} median
+                {" "}• {formatRecallTime(recallStats.overall.averageMs)} average over {recallStats.overall.count} reviews
+              </p>
+              {recallStats.grading.count > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Time from revealing the answer to grading it • {formatRecallTime(recallStats.grading.medianMs)} median
+                  {" "}• {formatRecallTime(recallStats.grading.averageMs)} average over {recallStats.grading.count} reviews
+                </p>
+              )}
+
+              <div className="grid lg:grid-cols-2 gap-8">
+                <div className="space-y-3">
+                  <p className="text-sm font-medium">By category</p>
+                  {recallStats.tags.slice(0, 6).map(stats => (
+                    <div key={stats.tag} className="flex items-center justify-between gap-4 text-sm">
+                      <Badge variant="outline">{stats.tag}</Badge>
+                      <span className="text-muted-foreground">
+                        {formatRecallTime(stats.medianMs)} median • {formatRecallTime(stats.averageMs)} avg
+                        {stats.grading.count > 0 && ` • ${formatRecallTime(stats.grading.medianMs)} to grade`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-3">
+                  <p className="text-sm font-medium">
+                    Slowest cards
+                    {slowCardCount > 0 && (
+                      <span className="font-normal text-muted-foreground"> • {slowCardCount} worth rewording</span>
+                    )}
+                  </p>
+                  {recallStats.cards.slice(0, 5).map(stats => (
+                    <div key={stats.card.id} className="flex items-center justify-between gap-4 p-3 bg-gradient-card rounded-lg">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{stats.card.question}</p>
+                        <div className="flex items-center gap-2 mt-1">
+                          <span className="text-xs text-muted-foreground">
+                            {formatRecallTime(stats.medianMs)} median • {formatRecallTime(stats.averageMs)} avg
+                          </span>
+                          {stats.slow && (
+                            <Badge variant="outline" className="text-xs border-warning text-warning">
+                              Slow
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => onEditCard(stats.card.id)}>
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Edit
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Study Sessions */}
+        {sessionStats.count > 0 && (
+          <Card className="flashcard mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="w-5 h-5 text-accent" />
+                Study Sessions
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {sessionStats.count} sessions • {formatDuration(sessionStats.totalTime)} studied in total
+                {" "}• {sessionStats.averageReviews.toFixed(1)} cards per session
+              </p>
+              {sessionStats.recent.map(session => {
+                const accuracy = session.cardsReviewed > 0
+                  ? ((session.cardsReviewed - session.grades.again) / session.cardsReviewed) * 100
+                  : 0;
+                return (
+                  <div key={session.id} className="flex items-center justify-between gap-4 p-3 bg-gradient-card rounded-lg">
+                    <div>
+                      <p className="text-sm font-medium">
+                        {new Date(session.startTime).toLocaleDateString()}{" "}
+                        {new Date(session.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {session.cardsReviewed} cards • {session.masteredItemIds.length} newly mastered
+                      </p>
+                    </div>
+                    <div className="text-right text-sm shrink-0">
+                      <div className="font-bold text-primary">{Math.round(accuracy)}%</div>
+                      <div className="text-xs text-muted-foreground">{formatDuration(getSessionDuration(session))}</div>
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Exam Attempts */}
+        {recentExams.length > 0 && (
+          <Card className="flashcard mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Timer className="w-5 h-5 text-primary" />
+                Exam Attempts
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {recentExams.map(({ attempt, report }) => (
+                <div key={attempt.id} className="flex items-center justify-between gap-4 p-3 bg-gradient-card rounded-lg">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">
+                      {new Date(attempt.startedAt).toLocaleDateString()}{" "}
+                      {new Date(attempt.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {attempt.config.tags.length > 0 ? (
+                        attempt.config.tags.map(tag => (
+                          <Badge key={tag} variant="secondary" className="text-xs">
+                            {tag}
+                          </Badge>
+                        ))
+                      ) : (
+                        <Badge variant="secondary" className="text-xs">All categories</Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="text-right text-sm shrink-0">
+                    <div className="font-bold text-primary">{Math.round(report.score)}%</div>
+                    <div className="text-xs text-muted-foreground">
+                      {report.correctCount}/{report.total} • {formatDuration(report.durationMs)}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Learning Insights */}
         {analytics.totalCards > 0 && (
           <Card className="flashcard mt-8">
@@ -286,7 +700,7 @@ export const Analytics = ({ flashcards }: AnalyticsProps) => {
                       <span className="font-medium text-accent">Active This Week</span>
                     </div>
                     <p className="text-sm text-muted-foreground">
-                      You've reviewed {analytics.recentActivity} cards this week. Great consistency!
+                      You've answered {analytics.recentActivity} reviews this week. Great consistency!
                     </p>
                   </div>
                 )}
@@ -0,0 +1,39 @@
+import { Badge } from "@/components/ui/badge";
+import { AnswerComparison } from "@/lib/answerMatching";
+
+interface AnswerDiffProps {
+  comparison: AnswerComparison;
+}
+
+const SEGMENT_STYLES = {
+  equal: "",
+  missing: "bg-success/20 text-success underline decoration-dotted",
+  extra: "bg-destructive/20 text-destructive line-through",
+};
+
+export const AnswerDiff = ({ comparison }: AnswerDiffProps) => {
+  return (
+    <div className="bg-white/50 dark:bg-black/20 rounded-lg p-4 border border-border space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium">Your answer</span>
+        <Badge
+          variant="outline"
+          className={comparison.isMatch ? "border-success text-success" : "border-destructive text-destructive"}
+        >
+          {Math.round(comparison.similarity * 100)}% match
+        </Badge>
+      </div>
+      <p className="font-mono text-sm leading-relaxed break-words">
+        {comparison.diff.map((segment, index) => (
+          <span key={index} className={SEGMENT_STYLES[segment.type]}>
+            {segment.text}
+          </span>
+        ))}
+      </p>
+      <p className="text-xs text-muted-foreground">
+        <span className="text-destructive line-through">Struck out</span> text was not expected,{" "}
+        <span className="text-success underline decoration-dotted">underlined</span> text was missing.
+      </p>
+    </div>
+  );
+};
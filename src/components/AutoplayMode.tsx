@@ -0,0 +1,244 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { ArrowLeft, Pause, Play, RotateCcw, SkipForward, Tv, Volume2 } from "lucide-react";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useShortcutBindings, useShortcuts } from "@/hooks/useShortcuts";
+import { ClozeText } from "@/components/ClozeText";
+import {
+  AutoplaySettings,
+  createExposureLogEntry,
+  DEFAULT_AUTOPLAY_SETTINGS,
+  EXPOSURE_LOG_KEY,
+  ExposureLogEntry,
+  isSpeechAvailable,
+  MAX_AUTOPLAY_SECONDS,
+  MIN_AUTOPLAY_SECONDS,
+  speak,
+  stopSpeaking,
+} from "@/lib/autoplay";
+import { describeShortcut } from "@/lib/shortcuts";
+import { StudyItem } from "@/lib/studyItems";
+
+interface AutoplayModeProps {
+  cards: StudyItem[];
+  onViewChange: (view: 'home') => void;
+}
+
+type AutoplayPhase = 'question' | 'answer';
+
+// Masked cloze gaps read better as a word
+const getSpokenText = (text: string) => text.replace(/\[\.\.\.\]/g, 'blank');
+
+export const AutoplayMode = ({ cards, onViewChange }: AutoplayModeProps) => {
+  const [settings, setSettings] = useLocalStorage<AutoplaySettings>('study-autoplay', DEFAULT_AUTOPLAY_SETTINGS);
+  const [, setExposureLog] = useLocalStorage<ExposureLogEntry[]>(EXPOSURE_LOG_KEY, []);
+  const [index, setIndex] = useState(0);
+  const [phase, setPhase] = useState<AutoplayPhase>('question');
+  const [paused, setPaused] = useState(false);
+  const shortcutBindings = useShortcutBindings();
+
+  const currentCard = cards[index];
+  const canSpeak = isSpeechAvailable();
+
+  // Move to the answer, or log the exposure and move to the next card
+  const handleAdvance = () => {
+    if (!currentCard) return;
+    if (phase === 'question') {
+      setPhase('answer');
+      return;
+    }
+    setExposureLog(prev => [...prev, createExposureLogEntry(currentCard)]);
+    setIndex(index + 1);
+    setPhase('question');
+  };
+  const advanceHandler = useRef(handleAdvance);
+  advanceHandler.current = handleAdvance;
+
+  const sideText = currentCard && (phase === 'question' ? currentCard.question : currentCard.answer);
+
+  // Each side stays up for its time, and for as long as it is being read
+  useEffect(() => {
+    if (sideText === undefined || paused) return;
+
+    let cancelled = false;
+    let timerDone = false;
+    let speechDone = !settings.speak;
+    const finish = () => {
+      if (!cancelled && timerDone && speechDone) advanceHandler.current();
+    };
+
+    const seconds = phase === 'question' ? settings.questionSeconds : settings.answerSeconds;
+    const timer = setTimeout(() => {
+      timerDone = true;
+      finish();
+    }, seconds * 1000);
+    if (settings.speak) {
+      speak(getSpokenText(sideText), () => {
+        speechDone = true;
+        finish();
+      });
+    }
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      stopSpeaking();
+    };
+  }, [sideText, index, phase, paused, settings]);
+
+  // By default Space pauses and resumes, the right arrow skips ahead
+  useShortcuts('autoplay', {
+    'autoplay-pause': () => setPaused(isPaused => !isPaused),
+    'autoplay-skip': () => handleAdvance(),
+  }, Boolean(currentCard));
+
+  const handleSecondsChange = (key: 'questionSeconds' | 'answerSeconds', value: string) => {
+    const seconds = Number.parseInt(value, 10);
+    if (Number.isNaN(seconds)) return;
+    setSettings({
+      ...settings,
+      [key]: Math.min(MAX_AUTOPLAY_SECONDS, Math.max(MIN_AUTOPLAY_SECONDS, seconds)),
+    });
+  };
+
+  const handleRestart = () => {
+    setIndex(0);
+    setPhase('question');
+    setPaused(false);
+  };
+
+  if (!currentCard) {
+    return (
+      <Card className="flashcard max-w-md mx-auto text-center">
+        <CardContent className="pt-8 pb-8 space-y-4">
+          <div className="w-16 h-16 bg-gradient-success rounded-full flex items-center justify-center mx-auto">
+            <Tv className="w-8 h-8 text-white" />
+          </div>
+          <h2 className="text-xl font-semibold">Autoplay Finished</h2>
+          <p className="text-muted-foreground">
+            You went through all {cards.length} cards. Passive viewing doesn't change your review schedule.
+          </p>
+          <div className="flex flex-col gap-2">
+            <Button variant="outline" onClick={handleRestart}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Play Again
+            </Button>
+            <Button onClick={() => onViewChange('home')} className="btn-corporate">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Home
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Progress Bar */}
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Tv className="w-4 h-4 text-primary" />
+            Autoplay • passive, not graded
+          </span>
+          <span>{index + 1} of {cards.length}</span>
+        </div>
+        <Progress value={(index / cards.length) * 100} className="h-2" />
+      </div>
+
+      {/* Timing and speech */}
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="autoplay-question-seconds" className="text-xs">Question (s)</Label>
+          <Input
+            id="autoplay-question-seconds"
+            type="number"
+            min={MIN_AUTOPLAY_SECONDS}
+            max={MAX_AUTOPLAY_SECONDS}
+            value={settings.questionSeconds}
+            onChange={(e) => handleSecondsChange('questionSeconds', e.target.value)}
+            className="h-8 w-20"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="autoplay-answer-seconds" className="text-xs">Answer (s)</Label>
+          <Input
+            id="autoplay-answer-seconds"
+            type="number"
+            min={MIN_AUTOPLAY_SECONDS}
+            max={MAX_AUTOPLAY_SECONDS}
+            value={settings.answerSeconds}
+            onChange={(e) => handleSecondsChange('answerSeconds', e.target.value)}
+            className="h-8 w-20"
+          />
+        </div>
+        <div className="flex items-center gap-2 h-8">
+          <Switch
+            id="autoplay-speak"
+            checked={settings.speak && canSpeak}
+            onCheckedChange={(speak) => setSettings({ ...settings, speak })}
+            disabled={!canSpeak}
+          />
+          <Label htmlFor="autoplay-speak" className="text-sm flex items-center gap-1">
+            <Volume2 className="w-4 h-4" />
+            {canSpeak ? "Read aloud" : "Read aloud (not supported in this browser)"}
+          </Label>
+        </div>
+      </div>
+
+      {/* Card */}
+      <div className="flashcard bg-gradient-card border-2 rounded-2xl p-8 space-y-6">
+        <div className="flex justify-between items-start">
+          <Badge variant="outline" className="text-xs">
+            {currentCard.cloze && `Cloze ${currentCard.cloze.number}`}
+            {!currentCard.cloze && (currentCard.direction === 'reverse' ? "Reverse" : "Question")}
+          </Badge>
+          {paused && (
+            <Badge variant="outline" className="text-xs border-warning text-warning">
+              Paused
+            </Badge>
+          )}
+        </div>
+        <p className="text-lg text-center leading-relaxed">
+          {currentCard.cloze ? (
+            <ClozeText
+              text={currentCard.cloze.text}
+              activeNumber={currentCard.cloze.number}
+              revealed={phase === 'answer'}
+            />
+          ) : (
+            currentCard.question
+          )}
+        </p>
+        {phase === 'answer' && (
+          <div className="border-t border-border pt-6 space-y-2">
+            {!currentCard.cloze && (
+              <p className="text-lg text-center leading-relaxed text-primary">{currentCard.answer}</p>
+            )}
+            {currentCard.cloze?.extra && (
+              <p className="text-sm text-center text-muted-foreground">{currentCard.cloze.extra}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2 justify-center">
+        <Button variant="outline" onClick={() => setPaused(!paused)}>
+          {paused ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+          {paused ? "Resume" : "Pause"} • {describeShortcut('autoplay-pause', shortcutBindings)}
+        </Button>
+        <Button variant="outline" onClick={handleAdvance}>
+          <SkipForward className="w-4 h-4 mr-2" />
+          {phase === 'question' ? "Show Answer" : "Next Card"} • {describeShortcut('autoplay-skip', shortcutBindings)}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import { parseCloze } from "@/lib/cloze";
+
+interface ClozeTextProps {
+  text: string;
+  activeNumber: number;
+  revealed: boolean;
+}
+
+// Renders cloze text with the active cloze hidden (or highlighted once
+// revealed) and every other cloze shown as plain text
+export const ClozeText = ({ text, activeNumber, revealed }: ClozeTextProps) => {
+  return (
+    <>
+      {parseCloze(text).map((segment, index) => {
+        if (segment.cloze?.number !== activeNumber) {
+          return <span key={index}>{segment.text}</span>;
+        }
+        return revealed ? (
+          <span key={index} className="font-semibold text-primary bg-primary/10 rounded px-1">
+            {segment.text}
+          </span>
+        ) : (
+          <span key={index} className="font-semibold text-primary bg-primary/10 rounded px-1">
+            [{segment.cloze.hint ?? "..."}]
+          </span>
+        );
+      })}
+    </>
+  );
+};
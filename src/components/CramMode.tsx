@@ -0,0 +1,186 @@
+import { useState, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Check, Flame, RotateCcw, X } from "lucide-react";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useShortcutBindings, useShortcuts } from "@/hooks/useShortcuts";
+import { ClozeText } from "@/components/ClozeText";
+import { advanceCramQueue, CRAM_LOG_KEY, CramLogEntry, createCramLogEntry } from "@/lib/cram";
+import { describeShortcut } from "@/lib/shortcuts";
+import { StudyItem } from "@/lib/studyItems";
+
+interface CramModeProps {
+  cards: StudyItem[];
+  onViewChange: (view: 'home') => void;
+}
+
+export const CramMode = ({ cards, onViewChange }: CramModeProps) => {
+  const [, setCramLog] = useLocalStorage<CramLogEntry[]>(CRAM_LOG_KEY, []);
+  const [queue, setQueue] = useState(() => cards.map(card => card.id));
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [misses, setMisses] = useState<Record<string, number>>({});
+  const [attempts, setAttempts] = useState(0);
+  const shortcutBindings = useShortcutBindings();
+
+  const cardsById = useMemo(() => new Map(cards.map(card => [card.id, card])), [cards]);
+  const currentCard = cardsById.get(queue[0]);
+  const learnedCount = cards.length - new Set(queue).size;
+
+  const handleAnswer = (correct: boolean) => {
+    if (!currentCard || !isFlipped) return;
+
+    setCramLog(prev => [...prev, createCramLogEntry(currentCard, correct)]);
+    if (!correct) {
+      setMisses(prev => ({ ...prev, [currentCard.id]: (prev[currentCard.id] ?? 0) + 1 }));
+    }
+    setAttempts(attempts + 1);
+    setQueue(advanceCramQueue(queue, correct));
+    setIsFlipped(false);
+  };
+
+  const handleRestart = () => {
+    setQueue(cards.map(card => card.id));
+    setIsFlipped(false);
+    setMisses({});
+    setAttempts(0);
+  };
+
+  // By default Space flips, 1 marks a miss and 2 a correct answer
+  useShortcuts('cram', {
+    'cram-flip': () => setIsFlipped(flipped => !flipped),
+    'cram-missed': () => handleAnswer(false),
+    'cram-got-it': () => handleAnswer(true),
+  }, Boolean(currentCard));
+
+  if (!currentCard) {
+    const hardest = Object.entries(misses)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 5)
+      .map(([id, count]) => ({ card: cardsById.get(id), count }))
+      .filter(({ card }) => Boolean(card));
+
+    return (
+      <Card className="flashcard max-w-2xl mx-auto">
+        <CardContent className="pt-8 pb-8 space-y-6">
+          <div className="text-center space-y-2">
+            <div className="w-16 h-16 bg-gradient-success rounded-full flex items-center justify-center mx-auto">
+              <Flame className="w-8 h-8 text-white" />
+            </div>
+            <h2 className="text-xl font-semibold">Cram Complete!</h2>
+            <p className="text-muted-foreground">
+              All {cards.length} cards answered correctly in {attempts} attempts.
+              Your review schedule was not changed.
+            </p>
+          </div>
+
+          {hardest.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Most missed</p>
+              {hardest.map(({ card, count }) => (
+                <div key={card.id} className="flex justify-between gap-4 p-3 bg-gradient-card rounded-lg border border-border">
+                  <p className="text-sm">{card.question}</p>
+                  <Badge variant="outline" className="text-xs border-destructive text-destructive shrink-0">
+                    {count}× missed
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-2 justify-center">
+            <Button variant="outline" onClick={handleRestart}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Cram Again
+            </Button>
+            <Button onClick={() => onViewChange('home')} className="btn-corporate">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Home
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Progress Bar */}
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Flame className="w-4 h-4 text-warning" />
+            Cramming • scheduling is not affected
+          </span>
+          <span>{learnedCount} of {cards.length} correct</span>
+        </div>
+        <Progress value={(learnedCount / cards.length) * 100} className="h-2" />
+      </div>
+
+      {/* Card */}
+      <div
+        className="flashcard bg-gradient-card border-2 rounded-2xl p-8 space-y-6 cursor-pointer"
+        onClick={() => setIsFlipped(!isFlipped)}
+      >
+        <div className="flex justify-between items-start">
+          <Badge variant="outline" className="text-xs">
+            {currentCard.cloze && `Cloze ${currentCard.cloze.number}`}
+            {!currentCard.cloze && (currentCard.direction === 'reverse' ? "Reverse" : "Question")}
+          </Badge>
+          {misses[currentCard.id] > 0 && (
+            <Badge variant="outline" className="text-xs border-destructive text-destructive">
+              Missed {misses[currentCard.id]}×
+            </Badge>
+          )}
+        </div>
+        <p className="text-lg text-center leading-relaxed">
+          {currentCard.cloze ? (
+            <ClozeText
+              text={currentCard.cloze.text}
+              activeNumber={currentCard.cloze.number}
+              revealed={isFlipped}
+            />
+          ) : (
+            currentCard.question
+          )}
+        </p>
+        {isFlipped ? (
+          <div className="border-t border-border pt-6 space-y-2">
+            {!currentCard.cloze && (
+              <p className="text-lg text-center leading-relaxed text-primary">{currentCard.answer}</p>
+            )}
+            {currentCard.cloze?.extra && (
+              <p className="text-sm text-center text-muted-foreground">{currentCard.cloze.extra}</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-center text-muted-foreground">
+            Click or press {describeShortcut('cram-flip', shortcutBindings)} to reveal answer
+          </p>
+        )}
+      </div>
+
+      {isFlipped && (
+        <div className="flex gap-2 justify-center">
+          <Button
+            variant="outline"
+            onClick={() => handleAnswer(false)}
+            className="border-destructive text-destructive hover:bg-destructive/10"
+          >
+            <X className="w-4 h-4 mr-2" />
+            Missed • {describeShortcut('cram-missed', shortcutBindings)}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleAnswer(true)}
+            className="border-success text-success hover:bg-success/10"
+          >
+            <Check className="w-4 h-4 mr-2" />
+            Got it • {describeShortcut('cram-got-it', shortcutBindings)}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,35 +1,71 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
-import { Plus, X, Save, BookOpen } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToastAction } from "@/components/ui/toast";
+import { Plus, X, Save, BookOpen, Brackets, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { ClozeText } from "@/components/ClozeText";
+import { getClozeNumbers, hasCloze, nextClozeNumber, wrapAsCloze } from "@/lib/cloze";
+import { CardDirection, CardType, Flashcard, NewFlashcard } from "@/lib/flashcard";
+import { DIRECTION_LABELS } from "@/lib/studyItems";
 
-interface Flashcard {
-  id: string;
-  question: string;
-  answer: string;
-  tags: string[];
-  mastered: boolean;
-  reviewCount: number;
-  lastReviewed?: Date;
-}
-
+// The create, edit and delete handlers return an id that undoes the change
 interface CreateFlashcardProps {
-  onFlashcardCreate: (flashcard: Omit<Flashcard, 'id'>) => void;
+  onFlashcardCreate: (flashcard: NewFlashcard) => string;
   existingTags: string[];
+  editingCard?: Flashcard; // edit this card instead of creating a new one
+  onFlashcardEdit?: (flashcard: Flashcard) => string;
+  onFlashcardDelete?: (cardId: string) => string;
+  onCancelEdit?: () => void;
+  onUndo: (undoId?: string) => void;
 }
 
-export const CreateFlashcard = ({ onFlashcardCreate, existingTags }: CreateFlashcardProps) => {
-  const [question, setQuestion] = useState("");
-  const [answer, setAnswer] = useState("");
-  const [tags, setTags] = useState<string[]>([]);
+export const CreateFlashcard = ({
+  onFlashcardCreate,
+  existingTags,
+  editingCard,
+  onFlashcardEdit,
+  onFlashcardDelete,
+  onCancelEdit,
+  onUndo,
+}: CreateFlashcardProps) => {
+  const [question, setQuestion] = useState(editingCard?.question ?? "");
+  const [answer, setAnswer] = useState(editingCard?.answer ?? "");
+  const [tags, setTags] = useState<string[]>(editingCard?.tags ?? []);
   const [newTag, setNewTag] = useState("");
+  const [direction, setDirection] = useState<CardDirection | 'default'>(editingCard?.direction ?? 'default');
+  const [cardType, setCardType] = useState<CardType>(editingCard?.type ?? 'basic');
+  const [suspended, setSuspended] = useState(editingCard?.suspended ?? false);
+  const questionRef = useRef<HTMLTextAreaElement>(null);
   const { toast } = useToast();
 
+  const isCloze = cardType === 'cloze';
+  const clozeNumbers = isCloze ? getClozeNumbers(question) : [];
+  // Cloze cards only need the cloze text; the answer field holds optional extra notes
+  const isComplete = isCloze ? hasCloze(question) : Boolean(question.trim() && answer.trim());
+
+  // Wrap the selected text as the next cloze and keep the selection on it
+  const handleWrapSelection = () => {
+    const textarea = questionRef.current;
+    if (!textarea || textarea.selectionStart === textarea.selectionEnd) return;
+
+    const { selectionStart, selectionEnd } = textarea;
+    const number = nextClozeNumber(question);
+    setQuestion(wrapAsCloze(question, selectionStart, selectionEnd, number));
+    requestAnimationFrame(() => {
+      const prefixLength = `{{c${number}::`.length;
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + prefixLength, selectionEnd + prefixLength);
+    });
+  };
+
   const handleAddTag = () => {
     if (newTag.trim() && !tags.includes(newTag.trim())) {
       setTags([...tags, newTag.trim()]);
@@ -41,10 +77,33 @@ export const CreateFlashcard = ({ onFlashcardCreate, existingTags }: CreateFlash
     setTags(tags.filter(tag => tag !== tagToRemove));
   };
 
+  const undoAction = (undoId: string) => (
+    <ToastAction altText="Undo" onClick={() => onUndo(undoId)}>Undo</ToastAction>
+  );
+
+  const handleDelete = () => {
+    if (!editingCard || !onFlashcardDelete) return;
+    const undoId = onFlashcardDelete(editingCard.id);
+    toast({
+      title: "Flashcard Deleted",
+      description: "The card was removed from your collection.",
+      action: undoAction(undoId),
+    });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!question.trim() || !answer.trim()) {
+    if (isCloze && !hasCloze(question)) {
+      toast({
+        title: "No cloze deletions",
+        description: "Select a word or phrase and wrap it as a cloze, e.g. {{c1::Paris}}.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!isComplete) {
       toast({
         title: "Missing Information",
         description: "Please fill in both question and answer fields.",
@@ -53,19 +112,40 @@ export const CreateFlashcard = ({ onFlashcardCreate, existingTags }: CreateFlash
       return;
     }
 
+    if (editingCard) {
+      const undoId = onFlashcardEdit?.({
+        ...editingCard,
+        question: question.trim(),
+        answer: answer.trim(),
+        tags,
+        type: cardType,
+        direction: isCloze || direction === 'default' ? undefined : direction,
+        suspended,
+      });
+      toast({
+        title: "Flashcard Updated",
+        description: "Your changes have been saved.",
+        action: undoId ? undoAction(undoId) : undefined,
+      });
+      return;
+    }
+
     const newFlashcard = {
       question: question.trim(),
       answer: answer.trim(),
       tags,
       mastered: false,
       reviewCount: 0,
+      type: cardType,
+      direction: isCloze || direction === 'default' ? undefined : direction,
     };
 
-    onFlashcardCreate(newFlashcard);
+    const undoId = onFlashcardCreate(newFlashcard);
     
     toast({
       title: "Flashcard Created!",
       description: "Your new flashcard has been added to your collection.",
+      action: undoAction(undoId),
     });
 
     // Reset form
@@ -73,6 +153,7 @@ export const CreateFlashcard = ({ onFlashcardCreate, existingTags }: CreateFlash
     setAnswer("");
     setTags([]);
     setNewTag("");
+    setDirection('default');
   };
 
   const handleTagSuggestionClick = (tag: string) => {
@@ -86,7 +167,9 @@ export const CreateFlashcard = ({ onFlashcardCreate, existingTags }: CreateFlash
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Header */}
         <div className="text-center mb-8">
-          <h1 className="text-3xl font-bold text-foreground mb-2">Create New Flashcard</h1>
+          <h1 className="text-3xl font-bold text-foreground mb-2">
+            {editingCard ? "Edit Flashcard" : "Create New Flashcard"}
+          </h1>
           <p className="text-muted-foreground">
             Build your knowledge base with professional flashcards designed for effective learning
           </p>
@@ -103,39 +186,70 @@ export const CreateFlashcard = ({ onFlashcardCreate, existingTags }: CreateFlash
             </CardHeader>
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-6">
+                {/* Card Type */}
+                <Tabs value={cardType} onValueChange={(value) => setCardType(value as CardType)}>
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="basic">Basic</TabsTrigger>
+                    <TabsTrigger value="cloze">Cloze</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+
                 {/* Question Field */}
                 <div className="space-y-2">
-                  <Label htmlFor="question" className="text-sm font-medium">
-                    Question *
-                  </Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="question" className="text-sm font-medium">
+                      {isCloze ? "Cloze Text *" : "Question *"}
+                    </Label>
+                    {isCloze && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={handleWrapSelection}
+                        className="text-xs h-7"
+                      >
+                        <Brackets className="w-3 h-3 mr-1" />
+                        Wrap selection as cloze
+                      </Button>
+                    )}
+                  </div>
                   <Textarea
                     id="question"
-                    placeholder="Enter your question here..."
+                    ref={questionRef}
+                    placeholder={isCloze
+                      ? "The capital of France is {{c1::Paris}}."
+                      : "Enter your question here..."}
                     value={question}
                     onChange={(e) => setQuestion(e.target.value)}
                     className="form-field min-h-[100px] resize-none"
                     required
                   />
                   <p className="text-xs text-muted-foreground">
-                    Make your question clear and specific for better learning outcomes.
+                    {isCloze
+                      ? "Each cloze number becomes its own card. Add a hint with {{c1::answer::hint}}."
+                      : "Make your question clear and specific for better learning outcomes."}
                   </p>
                 </div>
 
                 {/* Answer Field */}
                 <div className="space-y-2">
                   <Label htmlFor="answer" className="text-sm font-medium">
-                    Answer *
+                    {isCloze ? "Extra" : "Answer *"}
                   </Label>
                   <Textarea
                     id="answer"
-                    placeholder="Enter the answer here..."
+                    placeholder={isCloze
+                      ? "Optional notes shown with the answer..."
+                      : "Enter the answer here..."}
                     value={answer}
                     onChange={(e) => setAnswer(e.target.value)}
                     className="form-field min-h-[120px] resize-none"
-                    required
+                    required={!isCloze}
                   />
                   <p className="text-xs text-muted-foreground">
-                    Provide a comprehensive answer that reinforces the learning concept.
+                    {isCloze
+                      ? "Shown below the revealed cloze."
+                      : "Provide a comprehensive answer that reinforces the learning concept."}
                   </p>
                 </div>
 
@@ -211,15 +325,62 @@ export const CreateFlashcard = ({ onFlashcardCreate, existingTags }: CreateFlash
                   )}
                 </div>
 
+                {/* Study Direction */}
+                {!isCloze && (
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Study Direction</Label>
+                    <Select value={direction} onValueChange={(value) => setDirection(value as CardDirection | 'default')}>
+                      <SelectTrigger className="form-field">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Category default</SelectItem>
+                        {(Object.keys(DIRECTION_LABELS) as CardDirection[]).map(option => (
+                          <SelectItem key={option} value={option}>{DIRECTION_LABELS[option]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      "Both directions" schedules the reverse card separately.
+                    </p>
+                  </div>
+                )}
+
+                {/* Suspension */}
+                {editingCard && (
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="suspended" className="text-sm font-medium">Suspended</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Suspended cards are left out of study sessions.
+                      </p>
+                    </div>
+                    <Switch id="suspended" checked={suspended} onCheckedChange={setSuspended} />
+                  </div>
+                )}
+
                 {/* Submit Button */}
-                <Button 
-                  type="submit" 
-                  className="w-full btn-corporate"
-                  disabled={!question.trim() || !answer.trim()}
-                >
-                  <Save className="w-4 h-4 mr-2" />
-                  Create Flashcard
-                </Button>
+                <div className="flex gap-2">
+                  {editingCard && onFlashcardDelete && (
+                    <Button type="button" variant="outline" onClick={handleDelete} className="text-destructive">
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete
+                    </Button>
+                  )}
+                  {editingCard && (
+                    <Button type="button" variant="outline" onClick={onCancelEdit}>
+                      Cancel
+                    </Button>
+                  )}
+                  <Button 
+                    type="submit" 
+                    className="flex-1 btn-corporate"
+                    disabled={!isComplete}
+                  >
+                    <Save className="w-4 h-4 mr-2" />
+                    {editingCard ? "Save Changes" : "Create Flashcard"}
+                  </Button>
+                </div>
               </form>
             </CardContent>
           </Card>
@@ -234,25 +395,53 @@ export const CreateFlashcard = ({ onFlashcardCreate, existingTags }: CreateFlash
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {/* Question Preview */}
-                <div className="space-y-2">
-                  <Label className="text-xs font-medium text-muted-foreground">QUESTION SIDE</Label>
-                  <div className="bg-gradient-card border rounded-lg p-4 min-h-[100px] flex items-center justify-center">
-                    <p className="text-center text-sm">
-                      {question || "Your question will appear here..."}
-                    </p>
+                {/* Cloze Preview */}
+                {isCloze && (
+                  <div className="space-y-2">
+                    <Label className="text-xs font-medium text-muted-foreground">
+                      {clozeNumbers.length} {clozeNumbers.length === 1 ? "CARD" : "CARDS"}
+                    </Label>
+                    {clozeNumbers.length === 0 && (
+                      <div className="bg-gradient-card border rounded-lg p-4 min-h-[100px] flex items-center justify-center">
+                        <p className="text-center text-sm text-muted-foreground">
+                          Wrap part of your text as a cloze to preview its cards...
+                        </p>
+                      </div>
+                    )}
+                    {clozeNumbers.map(number => (
+                      <div key={number} className="bg-gradient-card border rounded-lg p-4 space-y-2">
+                        <Badge variant="outline" className="text-xs">Cloze {number}</Badge>
+                        <p className="text-center text-sm">
+                          <ClozeText text={question} activeNumber={number} revealed={false} />
+                        </p>
+                      </div>
+                    ))}
                   </div>
-                </div>
+                )}
 
-                {/* Answer Preview */}
-                <div className="space-y-2">
-                  <Label className="text-xs font-medium text-muted-foreground">ANSWER SIDE</Label>
-                  <div className="bg-gradient-card border rounded-lg p-4 min-h-[120px] flex items-center justify-center">
-                    <p className="text-center text-sm">
-                      {answer || "Your answer will appear here..."}
-                    </p>
-                  </div>
-                </div>
+                {/* Question Preview */}
+                {!isCloze && (
+                  <>
+                    <div className="space-y-2">
+                      <Label className="text-xs font-medium text-muted-foreground">QUESTION SIDE</Label>
+                      <div className="bg-gradient-card border rounded-lg p-4 min-h-[100px] flex items-center justify-center">
+                        <p className="text-center text-sm">
+                          {question || "Your question will appear here..."}
+                        </p>
+                      </div>
+                    </div>
+
+                    {/* Answer Preview */}
+                    <div className="space-y-2">
+                      <Label className="text-xs font-medium text-muted-foreground">ANSWER SIDE</Label>
+                      <div className="bg-gradient-card border rounded-lg p-4 min-h-[120px] flex items-center justify-center">
+                        <p className="text-center text-sm">
+                          {answer || "Your answer will appear here..."}
+                        </p>
+                      </div>
+                    </div>
+                  </>
+                )}
 
                 {/* Tags Preview */}
                 {tags.length > 0 && (
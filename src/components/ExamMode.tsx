@@ -0,0 +1,467 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import {
+  ArrowLeft,
+  ArrowRight,
+  Award,
+  Check,
+  Clock,
+  Play,
+  RotateCcw,
+  Tag,
+  Timer,
+  X,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import {
+  buildExamReport,
+  createExamAnswer,
+  DEFAULT_EXAM_CONFIG,
+  EXAM_ATTEMPTS_KEY,
+  ExamAnswer,
+  ExamAttempt,
+  ExamConfig,
+  filterExamItems,
+  formatDuration,
+  pickExamItems,
+} from "@/lib/exam";
+import { Flashcard } from "@/lib/flashcard";
+import { createSeed } from "@/lib/ordering";
+import { STUDY_FOCUS_KEY, StudyFocus } from "@/lib/session";
+import { StudySettings } from "@/lib/settings";
+import { buildStudyItems, StudyItem } from "@/lib/studyItems";
+
+interface ExamModeProps {
+  flashcards: Flashcard[];
+  settings: StudySettings;
+  onViewChange: (view: 'home' | 'study') => void;
+}
+
+type ExamPhase = 'setup' | 'running' | 'report';
+
+export const ExamMode = ({ flashcards, settings, onViewChange }: ExamModeProps) => {
+  const [config, setConfig] = useLocalStorage<ExamConfig>('exam-config', DEFAULT_EXAM_CONFIG);
+  const [, setAttempts] = useLocalStorage<ExamAttempt[]>(EXAM_ATTEMPTS_KEY, []);
+  const [, setFocus] = useLocalStorage<StudyFocus | null>(STUDY_FOCUS_KEY, null);
+  const [phase, setPhase] = useState<ExamPhase>('setup');
+  const [questions, setQuestions] = useState<StudyItem[]>([]);
+  const [answers, setAnswers] = useState<ExamAnswer[]>([]);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [startedAt, setStartedAt] = useState(0);
+  const [questionStartedAt, setQuestionStartedAt] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [attempt, setAttempt] = useState<ExamAttempt | null>(null);
+  const { toast } = useToast();
+
+  const studyItems = useMemo(
+    () => buildStudyItems(flashcards, settings.tagDirections),
+    [flashcards, settings.tagDirections]
+  );
+
+  const allTags = useMemo(() => {
+    const tags = flashcards.flatMap(card => card.tags);
+    return Array.from(new Set(tags)).sort();
+  }, [flashcards]);
+
+  const availableCount = filterExamItems(studyItems, config.tags).length;
+  const questionIndex = answers.length;
+  const currentQuestion = questions[questionIndex];
+  const deadline = startedAt + config.durationMinutes * 60 * 1000;
+  const questionDeadline = config.questionTimeLimitSeconds
+    ? questionStartedAt + config.questionTimeLimitSeconds * 1000
+    : Infinity;
+
+  const handleToggleTag = (tag: string) => {
+    const tags = config.tags.includes(tag)
+      ? config.tags.filter(t => t !== tag)
+      : [...config.tags, tag];
+    setConfig({ ...config, tags });
+  };
+
+  const handleNumberChange = (
+    key: 'questionCount' | 'durationMinutes' | 'questionTimeLimitSeconds',
+    value: string
+  ) => {
+    const number = Number.parseInt(value, 10);
+    setConfig({ ...config, [key]: Number.isNaN(number) ? 0 : Math.max(0, number) });
+  };
+
+  const handleStart = () => {
+    const picked = pickExamItems(studyItems, config, createSeed());
+    if (picked.length === 0 || config.durationMinutes <= 0) {
+      toast({
+        title: "Cannot start exam",
+        description: "Choose categories with cards and a duration of at least one minute.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const start = Date.now();
+    setQuestions(picked);
+    setAnswers([]);
+    setTypedAnswer('');
+    setStartedAt(start);
+    setQuestionStartedAt(start);
+    setNow(start);
+    setAttempt(null);
+    setPhase('running');
+  };
+
+  // Store the attempt; questions never reached count as unanswered
+  const finishExam = (finalAnswers: ExamAnswer[]) => {
+    const unanswered = questions
+      .slice(finalAnswers.length)
+      .map(item => createExamAnswer(item, '', 0, true));
+    const finished: ExamAttempt = {
+      id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+      config,
+      startedAt,
+      finishedAt: Date.now(),
+      answers: [...finalAnswers, ...unanswered],
+    };
+    setAttempts(prev => [...prev, finished]);
+    setAttempt(finished);
+    setPhase('report');
+  };
+
+  const submitAnswer = (timedOut: boolean) => {
+    if (!currentQuestion) return;
+
+    const answerTime = Date.now();
+    const answer = createExamAnswer(
+      currentQuestion,
+      typedAnswer,
+      answerTime - questionStartedAt,
+      timedOut
+    );
+    const nextAnswers = [...answers, answer];
+    setAnswers(nextAnswers);
+    setTypedAnswer('');
+    setQuestionStartedAt(answerTime);
+
+    if (nextAnswers.length >= questions.length) {
+      finishExam(nextAnswers);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitAnswer(false);
+  };
+
+  // Tick the countdowns while the exam is running
+  useEffect(() => {
+    if (phase !== 'running') return;
+    const timer = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(timer);
+  }, [phase]);
+
+  // Out of time: the overall deadline ends the exam, the per-question limit
+  // submits whatever has been typed so far
+  const handleTick = () => {
+    if (phase !== 'running') return;
+    if (now >= deadline) {
+      const current = currentQuestion
+        ? [createExamAnswer(currentQuestion, typedAnswer, now - questionStartedAt, true)]
+        : [];
+      finishExam([...answers, ...current]);
+    } else if (now >= questionDeadline) {
+      submitAnswer(true);
+    }
+  };
+
+  // Each tick runs the latest handler, with the current answers and typing
+  const tickHandler = useRef(handleTick);
+  tickHandler.current = handleTick;
+  useEffect(() => {
+    tickHandler.current();
+  }, [now]);
+
+  const handleStudyMissed = (missed: ExamAnswer[]) => {
+    if (!attempt) return;
+    setFocus({
+      id: attempt.id,
+      label: `Missed in exam (${missed.length})`,
+      itemIds: Array.from(new Set(missed.map(answer => answer.itemId))),
+    });
+    onViewChange('study');
+  };
+
+  if (phase === 'running' && currentQuestion) {
+    const remaining = deadline - now;
+    const questionRemaining = questionDeadline - now;
+
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+          {/* Countdown */}
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>Question {questionIndex + 1} of {questions.length}</span>
+              <span className={`flex items-center gap-1 font-mono ${remaining < 60000 ? "text-destructive" : ""}`}>
+                <Timer className="w-4 h-4" />
+                {formatDuration(remaining)}
+              </span>
+            </div>
+            <Progress value={(questionIndex / questions.length) * 100} className="h-2" />
+          </div>
+
+          {/* Question */}
+          <div className="flashcard bg-gradient-card border-2 rounded-2xl p-8 space-y-4">
+            <div className="flex justify-between items-start">
+              <Badge variant="outline" className="text-xs">
+                {currentQuestion.cloze ? `Cloze ${currentQuestion.cloze.number}` : "Question"}
+              </Badge>
+              {config.questionTimeLimitSeconds > 0 && (
+                <Badge variant="secondary" className="text-xs font-mono">
+                  <Clock className="w-3 h-3 mr-1" />
+                  {formatDuration(questionRemaining)}
+                </Badge>
+              )}
+            </div>
+            <p className="text-lg text-center leading-relaxed py-6">
+              {currentQuestion.question}
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <Input
+              autoFocus
+              value={typedAnswer}
+              onChange={(e) => setTypedAnswer(e.target.value)}
+              placeholder="Type your answer..."
+              className="form-field"
+            />
+            <Button type="submit" className="btn-corporate">
+              {questionIndex === questions.length - 1 ? "Finish" : "Next"}
+              <ArrowRight className="w-4 h-4 ml-2" />
+            </Button>
+          </form>
+          <div className="flex justify-between items-center">
+            <p className="text-xs text-muted-foreground">
+              Answers are revealed in the report at the end • Enter to submit
+            </p>
+            <Button variant="ghost" size="sm" onClick={() => finishExam(answers)}>
+              End Exam
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'report' && attempt) {
+    const report = buildExamReport(attempt);
+
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+          {/* Score */}
+          <Card className="flashcard">
+            <CardContent className="pt-8 pb-8 text-center space-y-2">
+              <div className="w-16 h-16 bg-gradient-success rounded-full flex items-center justify-center mx-auto">
+                <Award className="w-8 h-8 text-white" />
+              </div>
+              <h2 className="text-xl font-semibold">Exam Report</h2>
+              <p className="text-3xl font-bold text-primary">{Math.round(report.score)}%</p>
+              <p className="text-muted-foreground">
+                {report.correctCount} of {report.total} correct in {formatDuration(report.durationMs)}
+                {" "}• {formatDuration(report.averageTimeMs)} per question on average
+              </p>
+            </CardContent>
+          </Card>
+
+          <div className="grid md:grid-cols-2 gap-8">
+            {/* Tag Breakdown */}
+            <Card className="flashcard">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Tag className="w-5 h-5 text-accent" />
+                  By Category
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {report.byTag.map(({ tag, correct, total }) => (
+                  <div key={tag} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium">{tag}</span>
+                      <span className="text-muted-foreground">{correct}/{total}</span>
+                    </div>
+                    <Progress value={(correct / total) * 100} className="h-2" />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Missed Cards */}
+            <Card className="flashcard">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <X className="w-5 h-5 text-destructive" />
+                  Missed Cards
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {report.missed.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing missed. Well done!</p>
+                ) : (
+                  <>
+                    {report.missed.map(answer => (
+                      <div key={answer.itemId} className="p-3 bg-gradient-card rounded-lg border border-border">
+                        <p className="text-sm font-medium">{answer.question}</p>
+                        <p className="text-xs text-success mt-1">{answer.expected}</p>
+                        {answer.typed.trim() && (
+                          <p className="text-xs text-destructive line-through">{answer.typed}</p>
+                        )}
+                      </div>
+                    ))}
+                    <Button onClick={() => handleStudyMissed(report.missed)} className="w-full btn-corporate">
+                      <Play className="w-4 h-4 mr-2" />
+                      Study Missed Cards
+                    </Button>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Time per Question */}
+          <Card className="flashcard">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="w-5 h-5 text-primary" />
+                Time per Question
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {attempt.answers.map((answer, index) => (
+                <div key={answer.itemId} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="flex items-center gap-2 min-w-0">
+                    {answer.correct
+                      ? <Check className="w-4 h-4 text-success shrink-0" />
+                      : <X className="w-4 h-4 text-destructive shrink-0" />}
+                    <span className="truncate">{index + 1}. {answer.question}</span>
+                  </span>
+                  <span className="font-mono text-muted-foreground shrink-0">
+                    {answer.timedOut && answer.timeMs === 0 ? "—" : formatDuration(answer.timeMs)}
+                    {answer.timedOut && " ⏱"}
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <div className="flex flex-col sm:flex-row gap-2 justify-center">
+            <Button variant="outline" onClick={() => setPhase('setup')}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              New Exam
+            </Button>
+            <Button onClick={() => onViewChange('home')} className="btn-corporate">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Home
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-foreground mb-2">Exam Mode</h1>
+          <p className="text-muted-foreground">
+            Test yourself against the clock. Your review schedule is not affected.
+          </p>
+        </div>
+
+        <Card className="flashcard">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="w-5 h-5 text-primary" />
+              Exam Setup
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Categories</Label>
+              <div className="flex flex-wrap gap-2">
+                {allTags.map(tag => (
+                  <Button
+                    key={tag}
+                    type="button"
+                    variant={config.tags.includes(tag) ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleToggleTag(tag)}
+                    className="text-xs h-7"
+                  >
+                    {tag}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {config.tags.length === 0 ? "All categories" : config.tags.join(", ")}
+                {" "}• {availableCount} cards available
+              </p>
+            </div>
+
+            <div className="grid sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="exam-question-count" className="text-sm font-medium">Questions</Label>
+                <Input
+                  id="exam-question-count"
+                  type="number"
+                  min={1}
+                  value={config.questionCount}
+                  onChange={(e) => handleNumberChange('questionCount', e.target.value)}
+                  className="form-field"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exam-duration" className="text-sm font-medium">Time limit (minutes)</Label>
+                <Input
+                  id="exam-duration"
+                  type="number"
+                  min={1}
+                  value={config.durationMinutes}
+                  onChange={(e) => handleNumberChange('durationMinutes', e.target.value)}
+                  className="form-field"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="exam-question-limit" className="text-sm font-medium">Per question (seconds)</Label>
+                <Input
+                  id="exam-question-limit"
+                  type="number"
+                  min={0}
+                  placeholder="No limit"
+                  value={config.questionTimeLimitSeconds || ''}
+                  onChange={(e) => handleNumberChange('questionTimeLimitSeconds', e.target.value)}
+                  className="form-field"
+                />
+              </div>
+            </div>
+
+            <Button
+              onClick={handleStart}
+              disabled={availableCount === 0 || config.questionCount <= 0}
+              className="w-full btn-corporate"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Start Exam ({Math.min(config.questionCount, availableCount)} questions)
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -1,28 +1,49 @@
+import { useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { BookOpen, Plus, Brain, TrendingUp, Clock, Target } from "lucide-react";
-
-
-interface Flashcard {
-  id: string;
-  question: string;
-  answer: string;
-  tags: string[];
-  mastered: boolean;
-  reviewCount: number;
-  lastReviewed?: Date;
-}
+import { BookOpen, Plus, Brain, TrendingUp, Clock, Target, CalendarClock, Filter, Flame, Snowflake } from "lucide-react";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useStudyFilter } from "@/hooks/useStudyFilter";
+import { describeFilter, FILTER_PRESETS_KEY, FilterPreset, isEmptyFilter, matchesFilter } from "@/lib/cardFilter";
+import { Flashcard, isDue, isNewCard } from "@/lib/flashcard";
+import { ReviewLogEntry } from "@/lib/reviewLog";
+import { buildStudyQueue, DAILY_PROGRESS_KEY, DailyProgress, isBuried, STUDY_FOCUS_KEY, StudyFocus } from "@/lib/session";
+import { StudySettings } from "@/lib/settings";
+import { buildStudyItems } from "@/lib/studyItems";
+import { buildStreak, formatGoalAmount } from "@/lib/streak";
 
 interface HomePageProps {
   flashcards: Flashcard[];
+  settings: StudySettings;
+  reviewLog: ReviewLogEntry[];
   onViewChange: (view: 'create' | 'study') => void;
 }
 
-export const HomePage = ({ flashcards, onViewChange }: HomePageProps) => {
+export const HomePage = ({ flashcards, settings, reviewLog, onViewChange }: HomePageProps) => {
+  const [dailyProgress] = useLocalStorage<DailyProgress | undefined>(DAILY_PROGRESS_KEY, undefined);
+  const [filterPresets] = useLocalStorage<FilterPreset[]>(FILTER_PRESETS_KEY, []);
+  const [studyFilter, setStudyFilter] = useStudyFilter();
+  const [, setFocus] = useLocalStorage<StudyFocus | null>(STUDY_FOCUS_KEY, null);
   const totalCards = flashcards.length;
   const masteredCards = flashcards.filter(card => card.mastered).length;
   const progressPercentage = totalCards > 0 ? (masteredCards / totalCards) * 100 : 0;
+  const suspendedCards = flashcards.filter(card => card.suspended).length;
+  const buriedCards = flashcards.filter(card => !card.suspended && isBuried(card, settings.dayStartHour)).length;
+  // The cards Study would serve with the saved filter
+  const studyItems = useMemo(
+    () => buildStudyItems(flashcards, settings.tagDirections)
+      .filter(item => !isBuried(item, settings.dayStartHour) && matchesFilter(item, studyFilter)),
+    [flashcards, settings.tagDirections, settings.dayStartHour, studyFilter]
+  );
+  const dueCards = studyItems.filter(item => !isNewCard(item) && isDue(item)).length;
+  const newCards = studyItems.filter(isNewCard).length;
+  const queueCounts = buildStudyQueue(studyItems, dailyProgress, settings).counts;
+  const streak = useMemo(
+    () => buildStreak(reviewLog, settings.dailyGoal, settings.dayStartHour),
+    [reviewLog, settings.dailyGoal, settings.dayStartHour]
+  );
+  const goalType = settings.dailyGoal.type;
   
   const recentCards = flashcards
     .filter(card => card.lastReviewed)
@@ -40,6 +61,13 @@ export const HomePage = ({ flashcards, onViewChange }: HomePageProps) => {
     .sort(([,a], [,b]) => b - a)
     .slice(0, 4);
 
+  // Start studying with a saved filter instead of the last one used
+  const handleStudyPreset = (preset: FilterPreset) => {
+    setStudyFilter(preset.filter);
+    setFocus(null);
+    onViewChange('study');
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
       {/* Hero Section */}
@@ -79,6 +107,34 @@ export const HomePage = ({ flashcards, onViewChange }: HomePageProps) => {
                   Start Studying
                 </Button>
               </div>
+
+              {totalCards > 0 && (
+                <div className="flex gap-4 justify-center lg:justify-start text-sm">
+                  <span className="text-primary font-medium">{queueCounts.new} new</span>
+                  <span className="text-warning font-medium">{queueCounts.learning} learning</span>
+                  <span className="text-success font-medium">{queueCounts.review} due</span>
+                  <span className="text-muted-foreground">
+                    in today's queue{!isEmptyFilter(studyFilter) && ` • ${describeFilter(studyFilter)}`}
+                  </span>
+                </div>
+              )}
+
+              {totalCards > 0 && filterPresets.length > 0 && (
+                <div className="flex flex-wrap gap-2 justify-center lg:justify-start">
+                  {filterPresets.map(preset => (
+                    <Button
+                      key={preset.id}
+                      size="sm"
+                      variant="outline"
+                      title={describeFilter(preset.filter)}
+                      onClick={() => handleStudyPreset(preset)}
+                    >
+                      <Filter className="w-4 h-4 mr-2" />
+                      {preset.name}
+                    </Button>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -86,7 +142,7 @@ export const HomePage = ({ flashcards, onViewChange }: HomePageProps) => {
 
       {/* Stats Overview */}
       <section className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
-        <div className="grid md:grid-cols-3 gap-6 mb-12">
+        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-12">
           <Card className="flashcard">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total Cards</CardTitle>
@@ -95,7 +151,22 @@ export const HomePage = ({ flashcards, onViewChange }: HomePageProps) => {
             <CardContent>
               <div className="text-2xl font-bold">{totalCards}</div>
               <p className="text-xs text-muted-foreground">
-                {totalCards === 0 ? "Create your first flashcard" : "Ready for study"}
+                {totalCards === 0 && "Create your first flashcard"}
+                {totalCards > 0 && suspendedCards + buriedCards === 0 && "Ready for study"}
+                {suspendedCards + buriedCards > 0 && `${suspendedCards} suspended • ${buriedCards} buried today`}
+              </p>
+            </CardContent>
+          </Card>
+          
+          <Card className="flashcard">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Due Today</CardTitle>
+              <CalendarClock className="h-4 w-4 text-warning" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{dueCards}</div>
+              <p className="text-xs text-muted-foreground">
+                {newCards} new {newCards === 1 ? "card" : "cards"} not yet studied
               </p>
             </CardContent>
           </Card>
@@ -119,12 +190,45 @@ export const HomePage = ({ flashcards, onViewChange }: HomePageProps) => {
               <TrendingUp className="h-4 w-4 text-accent" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">0</div>
-              <p className="text-xs text-muted-foreground">Days consecutive</p>
+              <div className="text-2xl font-bold">{streak.current}</div>
+              <p className="text-xs text-muted-foreground">
+                {streak.current === 1 ? "Day" : "Days"} in a row • best {streak.best}
+                {streak.freezes > 0 && ` • ${streak.freezes} ${streak.freezes === 1 ? "freeze" : "freezes"}`}
+              </p>
             </CardContent>
           </Card>
         </div>
 
+        {/* Daily Goal */}
+        {totalCards > 0 && (
+          <Card className="flashcard mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Flame className="w-5 h-5 text-warning" />
+                Today's Goal
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>{streak.today.met ? "Goal reached" : "Daily goal"}</span>
+                  <span>
+                    {formatGoalAmount(streak.today.amount, goalType)} of {formatGoalAmount(streak.today.target, goalType)}
+                  </span>
+                </div>
+                <Progress value={Math.min(100, (streak.today.amount / streak.today.target) * 100)} className="h-3" />
+              </div>
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Snowflake className="w-3 h-3 text-primary" />
+                {streak.today.amount >= streak.today.freezeTarget
+                  ? "You earned a streak freeze today. "
+                  : `Reach ${formatGoalAmount(streak.today.freezeTarget, goalType)} to earn a streak freeze. `}
+                Freezes cover a missed day so your streak keeps going.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Progress Section */}
         {totalCards > 0 && (
           <Card className="flashcard mb-8">
@@ -0,0 +1,246 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Puzzle, RotateCcw, Trophy } from "lucide-react";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import {
+  addMatchScore,
+  buildMatchTiles,
+  DEFAULT_MATCH_PAIRS,
+  formatMatchTime,
+  getLeaderboard,
+  MATCH_SCORES_KEY,
+  MatchScore,
+  MatchTile,
+  MAX_MATCH_PAIRS,
+  MIN_MATCH_PAIRS,
+} from "@/lib/matching";
+import { StudyItem } from "@/lib/studyItems";
+
+interface MatchModeProps {
+  cards: StudyItem[];
+  board: string; // leaderboard name, from the tag filter
+  onViewChange: (view: 'home') => void;
+}
+
+const PAIR_OPTIONS = Array.from(
+  { length: MAX_MATCH_PAIRS - MIN_MATCH_PAIRS + 1 },
+  (_, index) => MIN_MATCH_PAIRS + index
+);
+
+// How long a mismatched pair stays highlighted
+const MISMATCH_MS = 600;
+
+export const MatchMode = ({ cards, board, onViewChange }: MatchModeProps) => {
+  const [pairs, setPairs] = useLocalStorage('study-match-pairs', DEFAULT_MATCH_PAIRS);
+  const [scores, setScores] = useLocalStorage<MatchScore[]>(MATCH_SCORES_KEY, []);
+  const [seed, setSeed] = useState(() => Date.now());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [matchedIds, setMatchedIds] = useState<string[]>([]);
+  const [wrongIds, setWrongIds] = useState<string[]>([]);
+  const [mismatches, setMismatches] = useState(0);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [finishedScore, setFinishedScore] = useState<MatchScore | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const tiles = useMemo(() => buildMatchTiles(cards, pairs, seed), [cards, pairs, seed]);
+  const pairCount = tiles.length / 2;
+  const leaderboard = getLeaderboard(scores, board, pairCount);
+
+  // The clock starts with the first tile picked
+  useEffect(() => {
+    if (startedAt === null || finishedScore) return;
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [startedAt, finishedScore]);
+
+  // Mismatched tiles flash briefly before they can be picked again
+  useEffect(() => {
+    if (wrongIds.length === 0) return;
+    const timer = setTimeout(() => setWrongIds([]), MISMATCH_MS);
+    return () => clearTimeout(timer);
+  }, [wrongIds]);
+
+  const handleNewGame = (nextPairs: number = pairs) => {
+    setPairs(nextPairs);
+    setSeed(Date.now());
+    setSelectedId(null);
+    setMatchedIds([]);
+    setWrongIds([]);
+    setMismatches(0);
+    setStartedAt(null);
+    setFinishedScore(null);
+  };
+
+  const handleFinish = (finishedAt: number) => {
+    const score: MatchScore = {
+      id: finishedAt.toString(36) + Math.random().toString(36).substr(2),
+      board,
+      pairs: pairCount,
+      timeMs: finishedAt - (startedAt ?? finishedAt),
+      mismatches,
+      playedAt: finishedAt,
+    };
+    setScores(addMatchScore(scores, score));
+    setFinishedScore(score);
+  };
+
+  const handleTileClick = (tile: MatchTile) => {
+    if (finishedScore || wrongIds.length > 0 || matchedIds.includes(tile.itemId)) return;
+    if (startedAt === null) {
+      setStartedAt(Date.now());
+      setNow(Date.now());
+    }
+
+    const selected = tiles.find(t => t.id === selectedId);
+    if (!selected || selected.id === tile.id) {
+      setSelectedId(selected ? null : tile.id);
+      return;
+    }
+
+    setSelectedId(null);
+    if (selected.itemId === tile.itemId) {
+      const matched = [...matchedIds, tile.itemId];
+      setMatchedIds(matched);
+      if (matched.length === pairCount) handleFinish(Date.now());
+    } else {
+      setMismatches(mismatches + 1);
+      setWrongIds([selected.id, tile.id]);
+    }
+  };
+
+  if (pairCount < MIN_MATCH_PAIRS) {
+    return (
+      <Card className="flashcard max-w-md mx-auto text-center">
+        <CardContent className="pt-8 pb-8 space-y-4">
+          <div className="w-16 h-16 bg-gradient-hero rounded-full flex items-center justify-center mx-auto">
+            <Puzzle className="w-8 h-8 text-white" />
+          </div>
+          <h2 className="text-xl font-semibold">Not Enough Cards</h2>
+          <p className="text-muted-foreground">
+            The matching game needs at least {MIN_MATCH_PAIRS} cards with distinct questions and answers.
+            Try a broader filter.
+          </p>
+          <Button onClick={() => onViewChange('home')} className="btn-corporate">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Home
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (finishedScore) {
+    const rank = leaderboard.findIndex(score => score.id === finishedScore.id);
+    return (
+      <Card className="flashcard max-w-2xl mx-auto">
+        <CardContent className="pt-8 pb-8 space-y-6">
+          <div className="text-center space-y-2">
+            <div className="w-16 h-16 bg-gradient-success rounded-full flex items-center justify-center mx-auto">
+              <Trophy className="w-8 h-8 text-white" />
+            </div>
+            <h2 className="text-xl font-semibold">
+              {rank === 0 ? "New Best Time!" : "All Matched!"}
+            </h2>
+            <p className="text-muted-foreground">
+              {pairCount} pairs in {formatMatchTime(finishedScore.timeMs)} with {finishedScore.mismatches}
+              {finishedScore.mismatches === 1 ? " mismatch" : " mismatches"}.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Best times • {board} • {pairCount} pairs</p>
+            {leaderboard.map((score, index) => (
+              <div
+                key={score.id}
+                className={`flex items-center justify-between gap-4 p-3 rounded-lg border ${
+                  score.id === finishedScore.id ? "border-primary bg-primary/5" : "border-border bg-gradient-card"
+                }`}
+              >
+                <span className="text-sm font-medium">
+                  {index + 1}. {formatMatchTime(score.timeMs)}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {score.mismatches} mismatches • {new Date(score.playedAt).toLocaleDateString()}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2 justify-center">
+            <Button variant="outline" onClick={() => handleNewGame()}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Play Again
+            </Button>
+            <Button onClick={() => onViewChange('home')} className="btn-corporate">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Home
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const elapsed = startedAt === null ? 0 : now - startedAt;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 text-sm text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Puzzle className="w-4 h-4 text-primary" />
+          Matching • scheduling is not affected
+        </span>
+        <div className="flex items-center gap-4">
+          <span>{matchedIds.length} of {pairCount} pairs</span>
+          <span>{mismatches} mismatches</span>
+          <span className="font-mono text-foreground">{formatMatchTime(elapsed)}</span>
+          {leaderboard[0] && (
+            <span className="flex items-center gap-1">
+              <Trophy className="w-4 h-4 text-warning" />
+              {formatMatchTime(leaderboard[0].timeMs)}
+            </span>
+          )}
+          <Select value={String(pairs)} onValueChange={(value) => handleNewGame(Number(value))}>
+            <SelectTrigger className="h-8 w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAIR_OPTIONS.map(option => (
+                <SelectItem key={option} value={String(option)}>{option * 2} tiles</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+        {tiles.map(tile => {
+          const matched = matchedIds.includes(tile.itemId);
+          const wrong = wrongIds.includes(tile.id);
+          const selected = tile.id === selectedId;
+          return (
+            <button
+              key={tile.id}
+              type="button"
+              onClick={() => handleTileClick(tile)}
+              disabled={matched}
+              className={`min-h-[96px] rounded-xl border-2 p-4 text-sm leading-snug transition-all ${
+                matched
+                  ? "border-success/30 bg-success/5 text-muted-foreground opacity-50"
+                  : wrong
+                    ? "border-destructive bg-destructive/10"
+                    : selected
+                      ? "border-primary bg-primary/10"
+                      : "border-border bg-gradient-card hover:border-primary/50"
+              } ${tile.side === 'question' ? "font-medium" : ""}`}
+            >
+              {tile.text}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
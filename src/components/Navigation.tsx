@@ -1,19 +1,36 @@
 import { Button } from "@/components/ui/button";
-import { BookOpen, Plus, BarChart3, Settings } from "lucide-react";
+import { BookOpen, Plus, BarChart3, Settings, SlidersHorizontal, Timer, Undo2 } from "lucide-react";
+import { useShortcutBindings, useShortcuts } from "@/hooks/useShortcuts";
+import { describeShortcut } from "@/lib/shortcuts";
 
 interface NavigationProps {
-  currentView: 'home' | 'create' | 'study' | 'analytics';
-  onViewChange: (view: 'home' | 'create' | 'study' | 'analytics') => void;
+  currentView: 'home' | 'create' | 'study' | 'exam' | 'analytics' | 'settings';
+  onViewChange: (view: 'home' | 'create' | 'study' | 'exam' | 'analytics' | 'settings') => void;
+  onUndo: () => void;
+  canUndo: boolean;
 }
 
-export const Navigation = ({ currentView, onViewChange }: NavigationProps) => {
+export const Navigation = ({ currentView, onViewChange, onUndo, canUndo }: NavigationProps) => {
+  const shortcutBindings = useShortcutBindings();
   const navItems = [
     { id: 'home' as const, label: 'Home', icon: BookOpen },
     { id: 'create' as const, label: 'Create', icon: Plus },
     { id: 'study' as const, label: 'Study', icon: BarChart3 },
+    { id: 'exam' as const, label: 'Exam', icon: Timer },
     { id: 'analytics' as const, label: 'Analytics', icon: Settings },
+    { id: 'settings' as const, label: 'Settings', icon: SlidersHorizontal },
   ];
 
+  useShortcuts('global', {
+    'go-home': () => onViewChange('home'),
+    'go-create': () => onViewChange('create'),
+    'go-study': () => onViewChange('study'),
+    'go-exam': () => onViewChange('exam'),
+    'go-analytics': () => onViewChange('analytics'),
+    'go-settings': () => onViewChange('settings'),
+    'undo': () => onUndo(),
+  });
+
   return (
     <nav className="bg-white/90 backdrop-blur-sm border-b border-border sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -41,6 +58,15 @@ export const Navigation = ({ currentView, onViewChange }: NavigationProps) => {
                 </Button>
               );
             })}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onUndo()}
+              disabled={!canUndo}
+              title={`Undo the last change (${describeShortcut('undo', shortcutBindings)})`}
+            >
+              <Undo2 className="w-4 h-4" />
+            </Button>
           </div>
         </div>
       </div>
@@ -0,0 +1,151 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRight, Check, X } from "lucide-react";
+import { useShortcutBindings, useShortcuts } from "@/hooks/useShortcuts";
+import { buildQuizOptions } from "@/lib/quiz";
+import { describeShortcut, ShortcutAction } from "@/lib/shortcuts";
+import { StudyItem } from "@/lib/studyItems";
+
+interface QuizModeProps {
+  card: StudyItem; // the session's current card
+  position: number; // session position, already past an answered card
+  total: number;
+  pool: StudyItem[];
+  seed: number;
+  onAnswer: (card: StudyItem, correct: boolean, responseMs: number) => void;
+}
+
+const OPTION_SHORTCUTS: ShortcutAction[] = ['quiz-option-1', 'quiz-option-2', 'quiz-option-3', 'quiz-option-4'];
+
+export const QuizMode = ({ card, position, total, pool: sessionPool, seed, onAnswer }: QuizModeProps) => {
+  // Answering moves the session on straight away, so the answered question
+  // and its options stay up until the next one is asked. The session's
+  // current card is asked next, which brings back missed cards for
+  // relearning.
+  const [currentCard, setCurrentCard] = useState(card);
+  const [pool] = useState(sessionPool);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const questionShownAt = useRef(Date.now());
+  const shortcutBindings = useShortcutBindings();
+
+  const questionNumber = selectedOption === null ? position + 1 : position;
+
+  const options = useMemo(
+    () => buildQuizOptions(currentCard, pool, seed + questionIndex),
+    [currentCard, pool, questionIndex, seed]
+  );
+
+  useEffect(() => {
+    questionShownAt.current = Date.now();
+  }, [questionIndex]);
+
+  const handleSelect = (optionIndex: number) => {
+    if (selectedOption !== null || !options[optionIndex]) return;
+
+    const correct = options[optionIndex].correct;
+    setSelectedOption(optionIndex);
+    if (correct) setCorrectCount(count => count + 1);
+    onAnswer(currentCard, correct, Date.now() - questionShownAt.current);
+  };
+
+  const handleNextQuestion = () => {
+    if (selectedOption === null) return;
+    setCurrentCard(card);
+    setQuestionIndex(questionIndex + 1);
+    setSelectedOption(null);
+  };
+
+  // By default number keys pick an option, Enter or the right arrow moves on
+  useShortcuts('quiz', {
+    'quiz-option-1': () => handleSelect(0),
+    'quiz-option-2': () => handleSelect(1),
+    'quiz-option-3': () => handleSelect(2),
+    'quiz-option-4': () => handleSelect(3),
+    'quiz-next': () => handleNextQuestion(),
+  });
+
+  return (
+    <div className="space-y-8">
+      {/* Progress Bar */}
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm text-muted-foreground">
+          <span>
+            Question {questionNumber} of {total}
+          </span>
+          <span>{correctCount} correct</span>
+        </div>
+        <Progress value={(Math.min(questionNumber, total) / total) * 100} className="h-2" />
+      </div>
+
+      {/* Question */}
+      <div className="flashcard bg-gradient-card border-2 rounded-2xl p-8 space-y-4">
+        <div className="flex justify-between items-start">
+          <Badge variant="outline" className="text-xs">
+            {currentCard.cloze && `Cloze ${currentCard.cloze.number}`}
+            {!currentCard.cloze && (currentCard.direction === 'reverse' ? "Reverse" : "Question")}
+          </Badge>
+          <div className="flex gap-1">
+            {currentCard.tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="text-xs">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        </div>
+        <p className="text-lg text-center leading-relaxed py-6">
+          {currentCard.question}
+        </p>
+      </div>
+
+      {/* Options */}
+      <div className="grid sm:grid-cols-2 gap-3">
+        {options.map((option, index) => {
+          const isSelected = selectedOption === index;
+          const revealed = selectedOption !== null;
+          let className = "justify-start h-auto py-3 text-left whitespace-normal";
+          if (revealed && option.correct) {
+            className += " border-success text-success bg-success/10";
+          } else if (isSelected) {
+            className += " border-destructive text-destructive bg-destructive/10";
+          }
+
+          return (
+            <Button
+              key={index}
+              variant="outline"
+              onClick={() => handleSelect(index)}
+              disabled={revealed && !isSelected && !option.correct}
+              className={className}
+            >
+              <span className="mr-3 text-xs font-mono opacity-70">
+                {OPTION_SHORTCUTS[index] ? describeShortcut(OPTION_SHORTCUTS[index], shortcutBindings) : index + 1}
+              </span>
+              <span className="flex-1">{option.text}</span>
+              {revealed && option.correct && <Check className="w-4 h-4 ml-2" />}
+              {isSelected && !option.correct && <X className="w-4 h-4 ml-2" />}
+            </Button>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between items-center">
+        <p className="text-xs text-muted-foreground">
+          Press an option's key to answer • {describeShortcut('quiz-next', shortcutBindings)} for the next question
+        </p>
+        <Button
+          onClick={handleNextQuestion}
+          disabled={selectedOption === null}
+          className="btn-corporate"
+        >
+          Next Question
+          <ArrowRight className="w-4 h-4 ml-2" />
+        </Button>
+      </div>
+    </div>
+  );
+};
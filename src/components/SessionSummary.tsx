@@ -0,0 +1,121 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Award, Clock, Layers, RotateCcw, Target } from "lucide-react";
+import { formatDuration } from "@/lib/exam";
+import { GRADES } from "@/lib/flashcard";
+import { getSessionDuration, StudySession } from "@/lib/studySession";
+import { StudyItem } from "@/lib/studyItems";
+
+interface SessionSummaryProps {
+  session: StudySession;
+  items: StudyItem[]; // for looking up the questions of mastered cards
+  onStudyMissed: () => void;
+  onStartNext?: () => void;
+  onViewChange: (view: 'home') => void;
+}
+
+const GRADE_LABELS = { again: "Again", hard: "Hard", good: "Good", easy: "Easy" };
+
+const GRADE_COLORS = {
+  again: "text-destructive",
+  hard: "text-warning",
+  good: "text-success",
+  easy: "text-primary",
+};
+
+export const SessionSummary = ({
+  session,
+  items,
+  onStudyMissed,
+  onStartNext,
+  onViewChange,
+}: SessionSummaryProps) => {
+  const mastered = session.masteredItemIds
+    .map(id => items.find(item => item.id === id))
+    .filter((item): item is StudyItem => Boolean(item));
+
+  return (
+    <Card className="flashcard max-w-2xl mx-auto">
+      <CardContent className="pt-8 pb-8 space-y-6">
+        <div className="text-center space-y-2">
+          <div className="w-16 h-16 bg-gradient-success rounded-full flex items-center justify-center mx-auto">
+            <Target className="w-8 h-8 text-white" />
+          </div>
+          <h2 className="text-xl font-semibold">Session Complete!</h2>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div className="bg-white/50 dark:bg-black/20 rounded-lg p-3 border border-border">
+            <div className="text-lg font-semibold text-foreground flex items-center justify-center gap-1">
+              <Clock className="w-4 h-4" />
+              {formatDuration(getSessionDuration(session))}
+            </div>
+            <div className="text-xs text-muted-foreground">Duration</div>
+          </div>
+          <div className="bg-white/50 dark:bg-black/20 rounded-lg p-3 border border-border">
+            <div className="text-lg font-semibold text-accent flex items-center justify-center gap-1">
+              <Layers className="w-4 h-4" />
+              {session.cardsReviewed}
+            </div>
+            <div className="text-xs text-muted-foreground">Cards Reviewed</div>
+          </div>
+          <div className="bg-white/50 dark:bg-black/20 rounded-lg p-3 border border-border">
+            <div className="text-lg font-semibold text-success flex items-center justify-center gap-1">
+              <Award className="w-4 h-4" />
+              {mastered.length}
+            </div>
+            <div className="text-xs text-muted-foreground">Newly Mastered</div>
+          </div>
+        </div>
+
+        {/* Grades */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Answers</p>
+          {GRADES.map(grade => (
+            <div key={grade} className="flex items-center gap-3 text-sm">
+              <span className={`w-12 font-medium ${GRADE_COLORS[grade]}`}>{GRADE_LABELS[grade]}</span>
+              <Progress
+                value={session.cardsReviewed > 0 ? (session.grades[grade] / session.cardsReviewed) * 100 : 0}
+                className="h-2 flex-1"
+              />
+              <span className="w-8 text-right text-muted-foreground">{session.grades[grade]}</span>
+            </div>
+          ))}
+        </div>
+
+        {mastered.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Mastered this session</p>
+            <div className="flex flex-wrap gap-2">
+              {mastered.map(item => (
+                <Badge key={item.id} variant="outline" className="text-xs border-success text-success">
+                  {item.question}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2 justify-center">
+          {session.missedItemIds.length > 0 && (
+            <Button variant="outline" onClick={onStudyMissed}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Study Missed Cards Again ({session.missedItemIds.length})
+            </Button>
+          )}
+          {onStartNext && (
+            <Button variant="outline" onClick={onStartNext}>
+              Start Next Session
+            </Button>
+          )}
+          <Button onClick={() => onViewChange('home')} className="btn-corporate">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Home
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,519 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeftRight, Brain, Bug, CalendarDays, Cpu, Flame, RotateCcw, SlidersHorizontal } from "lucide-react";
+import { ShortcutSettings } from "@/components/ShortcutSettings";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_FSRS_WEIGHTS } from "@/lib/fsrs";
+import {
+  countTrainableReviews,
+  MIN_REVIEWS_FOR_OPTIMIZATION,
+  optimizeFsrsWeights,
+} from "@/lib/fsrsOptimizer";
+import { CardDirection } from "@/lib/flashcard";
+import { MAX_LEITNER_BOXES, MIN_LEITNER_BOXES, resizeLeitnerBoxes } from "@/lib/leitner";
+import { ReviewLogEntry } from "@/lib/reviewLog";
+import { DEFAULT_SETTINGS, SchedulerType, StudySettings } from "@/lib/settings";
+import { DIRECTION_LABELS } from "@/lib/studyItems";
+import { DailyGoalType } from "@/lib/streak";
+
+interface SettingsProps {
+  settings: StudySettings;
+  // Takes new settings, or an update applied to the latest stored settings
+  onSettingsChange: (settings: StudySettings | ((current: StudySettings) => StudySettings)) => void;
+  reviewLog: ReviewLogEntry[];
+  tags: string[];
+}
+
+export const Settings = ({ settings, onSettingsChange, reviewLog, tags }: SettingsProps) => {
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [optimizationProgress, setOptimizationProgress] = useState(0);
+  const [learningStepsText, setLearningStepsText] = useState(settings.learningSteps.join(' '));
+  const optimization = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  // Leaving Settings stops a running optimisation
+  useEffect(() => () => optimization.current?.abort(), []);
+
+  const trainableReviews = countTrainableReviews(reviewLog);
+  const usesDefaultWeights = settings.fsrs.weights.every(
+    (weight, i) => weight === DEFAULT_FSRS_WEIGHTS[i]
+  );
+
+  const handleSchedulerChange = (scheduler: SchedulerType) => {
+    onSettingsChange({ ...settings, scheduler });
+  };
+
+  const handleRetentionChange = ([value]: number[]) => {
+    onSettingsChange({
+      ...settings,
+      fsrs: { ...settings.fsrs, requestRetention: value / 100 },
+    });
+  };
+
+  const handleBoxCountChange = (value: string) => {
+    const count = Number.parseInt(value, 10);
+    if (Number.isNaN(count)) return;
+    onSettingsChange({
+      ...settings,
+      leitner: { boxIntervals: resizeLeitnerBoxes(settings.leitner.boxIntervals, count) },
+    });
+  };
+
+  const handleBoxIntervalChange = (box: number, value: string) => {
+    const interval = Number.parseInt(value, 10);
+    const boxIntervals = [...settings.leitner.boxIntervals];
+    boxIntervals[box] = Number.isNaN(interval) ? 1 : Math.max(1, interval);
+    onSettingsChange({ ...settings, leitner: { boxIntervals } });
+  };
+
+  const handleLimitChange = (key: 'newCardsPerDay' | 'maxReviewsPerDay', value: string) => {
+    const limit = Number.parseInt(value, 10);
+    onSettingsChange({ ...settings, [key]: Number.isNaN(limit) ? 0 : Math.max(0, limit) });
+  };
+
+  const handleGoalTypeChange = (type: DailyGoalType) => {
+    onSettingsChange({ ...settings, dailyGoal: { ...settings.dailyGoal, type } });
+  };
+
+  const handleGoalTargetChange = (value: string) => {
+    const target = Number.parseInt(value, 10);
+    onSettingsChange({
+      ...settings,
+      dailyGoal: { ...settings.dailyGoal, target: Number.isNaN(target) ? 1 : Math.max(1, target) },
+    });
+  };
+
+  const handleLeechThresholdChange = (value: string) => {
+    const threshold = Number.parseInt(value, 10);
+    onSettingsChange({
+      ...settings,
+      leech: { ...settings.leech, threshold: Number.isNaN(threshold) ? 1 : Math.max(1, threshold) },
+    });
+  };
+
+  const handleLeechSuspendChange = (suspend: boolean) => {
+    onSettingsChange({ ...settings, leech: { ...settings.leech, suspend } });
+  };
+
+  // Steps are typed as minutes separated by spaces or commas, e.g. "1 10"
+  const handleLearningStepsBlur = () => {
+    const steps = learningStepsText
+      .split(/[\s,]+/)
+      .map(step => Number.parseFloat(step))
+      .filter(step => !Number.isNaN(step) && step > 0);
+    const learningSteps = steps.length > 0 ? steps : DEFAULT_SETTINGS.learningSteps;
+    setLearningStepsText(learningSteps.join(' '));
+    onSettingsChange({ ...settings, learningSteps });
+  };
+
+  const handleTagDirectionChange = (tag: string, value: CardDirection | 'forward-default') => {
+    const tagDirections = { ...settings.tagDirections };
+    if (value === 'forward-default') {
+      delete tagDirections[tag];
+    } else {
+      tagDirections[tag] = value;
+    }
+    onSettingsChange({ ...settings, tagDirections });
+  };
+
+  // Fit FSRS weights to the recorded review history
+  const handleOptimize = async () => {
+    if (trainableReviews < MIN_REVIEWS_FOR_OPTIMIZATION) {
+      toast({
+        title: "Not enough review history",
+        description: `At least ${MIN_REVIEWS_FOR_OPTIMIZATION} repeat reviews on different days are needed to optimise.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    optimization.current = controller;
+    setIsOptimizing(true);
+    setOptimizationProgress(0);
+    try {
+      const result = await optimizeFsrsWeights(reviewLog, settings.fsrs.weights, {
+        onProgress: progress => setOptimizationProgress(progress * 100),
+        signal: controller.signal,
+      });
+      // Settings may have changed while the optimiser ran
+      onSettingsChange(current => ({
+        ...current,
+        fsrs: { ...current.fsrs, weights: result.weights },
+      }));
+      toast({
+        title: "Weights optimised",
+        description: `Fitted to ${result.reviewCount} reviews (log loss ${result.loss.toFixed(3)}).`,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error optimising FSRS weights:', error);
+      toast({
+        title: "Optimisation failed",
+        description: "Your previous weights have been kept.",
+        variant: "destructive",
+      });
+    } finally {
+      if (!controller.signal.aborted) setIsOptimizing(false);
+      optimization.current = null;
+    }
+  };
+
+  const handleResetWeights = () => {
+    onSettingsChange({
+      ...settings,
+      fsrs: { ...settings.fsrs, weights: DEFAULT_FSRS_WEIGHTS },
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-foreground mb-2">Settings</h1>
+          <p className="text-muted-foreground">
+            Tune how your collection is scheduled and studied
+          </p>
+        </div>
+
+        <div className="space-y-8">
+          {/* Scheduler */}
+          <Card className="flashcard">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Brain className="w-5 h-5 text-primary" />
+                Scheduler
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Algorithm</Label>
+                <Select value={settings.scheduler} onValueChange={handleSchedulerChange}>
+                  <SelectTrigger className="w-full sm:w-[280px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sm2">SM-2 (classic)</SelectItem>
+                    <SelectItem value="fsrs">FSRS (adaptive)</SelectItem>
+                    <SelectItem value="leitner">Leitner boxes</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Applies to the whole collection. Existing intervals are kept when switching.
+                </p>
+              </div>
+
+              {settings.scheduler === 'fsrs' && (
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <Label className="font-medium">Target retention</Label>
+                    <span>{Math.round(settings.fsrs.requestRetention * 100)}%</span>
+                  </div>
+                  <Slider
+                    min={70}
+                    max={99}
+                    step={1}
+                    value={[Math.round(settings.fsrs.requestRetention * 100)]}
+                    onValueChange={handleRetentionChange}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Higher retention means shorter intervals and more reviews per day.
+                  </p>
+                </div>
+              )}
+
+              {settings.scheduler === 'leitner' && (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="leitner-box-count" className="text-sm font-medium">
+                      Number of boxes
+                    </Label>
+                    <Input
+                      id="leitner-box-count"
+                      type="number"
+                      min={MIN_LEITNER_BOXES}
+                      max={MAX_LEITNER_BOXES}
+                      value={settings.leitner.boxIntervals.length}
+                      onChange={(e) => handleBoxCountChange(e.target.value)}
+                      className="form-field w-full sm:w-[280px]"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Review every (days)</Label>
+                    <div className="grid grid-cols-3 sm:grid-cols-5 gap-3">
+                      {settings.leitner.boxIntervals.map((interval, box) => (
+                        <div key={box} className="space-y-1">
+                          <span className="text-xs text-muted-foreground">Box {box + 1}</span>
+                          <Input
+                            type="number"
+                            min={1}
+                            value={interval}
+                            onChange={(e) => handleBoxIntervalChange(box, e.target.value)}
+                            className="form-field"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Correct answers move a card up one box; a miss sends it back to box 1.
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Daily Limits */}
+          <Card className="flashcard">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="w-5 h-5 text-primary" />
+                Daily Limits
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="grid sm:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="new-cards-per-day" className="text-sm font-medium">
+                  New cards per day
+                </Label>
+                <Input
+                  id="new-cards-per-day"
+                  type="number"
+                  min={0}
+                  value={settings.newCardsPerDay}
+                  onChange={(e) => handleLimitChange('newCardsPerDay', e.target.value)}
+                  className="form-field"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-reviews-per-day" className="text-sm font-medium">
+                  Maximum reviews per day
+                </Label>
+                <Input
+                  id="max-reviews-per-day"
+                  type="number"
+                  min={0}
+                  value={settings.maxReviewsPerDay}
+                  onChange={(e) => handleLimitChange('maxReviewsPerDay', e.target.value)}
+                  className="form-field"
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="learning-steps" className="text-sm font-medium">
+                  Relearning steps (minutes)
+                </Label>
+                <Input
+                  id="learning-steps"
+                  value={learningStepsText}
+                  onChange={(e) => setLearningStepsText(e.target.value)}
+                  onBlur={handleLearningStepsBlur}
+                  placeholder="1 10"
+                  className="form-field"
+                />
+                <p className="text-xs text-muted-foreground">
+                  A failed card comes back in the same session after each step, until it is answered correctly at the last one.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Daily Goal */}
+          <Card className="flashcard">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Flame className="w-5 h-5 text-warning" />
+                Daily Goal
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="grid sm:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="daily-goal-target" className="text-sm font-medium">
+                  Study each day
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="daily-goal-target"
+                    type="number"
+                    min={1}
+                    value={settings.dailyGoal.target}
+                    onChange={(e) => handleGoalTargetChange(e.target.value)}
+                    className="form-field"
+                  />
+                  <Select value={settings.dailyGoal.type} onValueChange={handleGoalTypeChange}>
+                    <SelectTrigger className="form-field w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="cards">cards</SelectItem>
+                      <SelectItem value="minutes">minutes</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Meeting the goal keeps your streak going. Doubling it earns a streak freeze for a missed day.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="day-start-hour" className="text-sm font-medium">
+                  New day starts at
+                </Label>
+                <Select
+                  value={String(settings.dayStartHour)}
+                  onValueChange={(value) => onSettingsChange({ ...settings, dayStartHour: Number(value) })}
+                >
+                  <SelectTrigger id="day-start-hour" className="form-field">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <SelectItem key={hour} value={String(hour)}>
+                        {hour === 0 ? "Midnight" : `${String(hour).padStart(2, '0')}:00`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Studying after midnight but before this hour counts towards the previous day.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Leeches */}
+          <Card className="flashcard">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Bug className="w-5 h-5 text-destructive" />
+                Leeches
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="grid sm:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="leech-threshold" className="text-sm font-medium">
+                  Lapses before a card is a leech
+                </Label>
+                <Input
+                  id="leech-threshold"
+                  type="number"
+                  min={1}
+                  value={settings.leech.threshold}
+                  onChange={(e) => handleLeechThresholdChange(e.target.value)}
+                  className="form-field"
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="leech-suspend" className="text-sm font-medium">
+                    Suspend leeches
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Leeches are always tagged "leech".
+                  </p>
+                </div>
+                <Switch
+                  id="leech-suspend"
+                  checked={settings.leech.suspend}
+                  onCheckedChange={handleLeechSuspendChange}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Card Directions */}
+          {tags.length > 0 && (
+            <Card className="flashcard">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ArrowLeftRight className="w-5 h-5 text-accent" />
+                  Study Direction by Category
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  Default direction for cards in each category. A direction chosen on the card itself takes priority.
+                </p>
+                {tags.map(tag => (
+                  <div key={tag} className="flex items-center justify-between gap-4">
+                    <span className="text-sm font-medium">{tag}</span>
+                    <Select
+                      value={settings.tagDirections[tag] ?? 'forward-default'}
+                      onValueChange={(value) => handleTagDirectionChange(tag, value as CardDirection | 'forward-default')}
+                    >
+                      <SelectTrigger className="w-[220px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="forward-default">{DIRECTION_LABELS.forward} (default)</SelectItem>
+                        <SelectItem value="reverse">{DIRECTION_LABELS.reverse}</SelectItem>
+                        <SelectItem value="both">{DIRECTION_LABELS.both}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* FSRS Optimiser */}
+          {settings.scheduler === 'fsrs' && (
+            <Card className="flashcard">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Cpu className="w-5 h-5 text-accent" />
+                  Personalised Weights
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Fit the FSRS weights to your own review history so intervals follow how you actually forget.
+                  {" "}{trainableReviews} usable {trainableReviews === 1 ? "review" : "reviews"} recorded.
+                </p>
+
+                {isOptimizing && (
+                  <Progress value={optimizationProgress} className="h-2" />
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    onClick={handleOptimize}
+                    disabled={isOptimizing}
+                    className="btn-corporate"
+                  >
+                    <SlidersHorizontal className="w-4 h-4 mr-2" />
+                    {isOptimizing ? "Optimising..." : "Optimise Weights"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleResetWeights}
+                    disabled={isOptimizing || usesDefaultWeights}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Reset to Defaults
+                  </Button>
+                </div>
+
+                <div className="bg-muted/40 border border-border rounded-lg p-3 font-mono text-xs break-all">
+                  {settings.fsrs.weights.join(", ")}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Keyboard Shortcuts */}
+          <ShortcutSettings
+            bindings={settings.shortcuts}
+            onBindingsChange={(shortcuts) => onSettingsChange({ ...settings, shortcuts })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
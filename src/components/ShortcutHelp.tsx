@@ -0,0 +1,61 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  formatShortcutKey,
+  getShortcutKeys,
+  SHORTCUT_ACTIONS,
+  SHORTCUT_SCOPE_LABELS,
+  ShortcutBindings,
+  SHORTCUTS,
+  ShortcutScope,
+} from "@/lib/shortcuts";
+
+interface ShortcutHelpProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bindings: ShortcutBindings;
+  scopes: ShortcutScope[]; // scopes active in the current view
+}
+
+export const ShortcutKey = ({ shortcut }: { shortcut: string }) => (
+  <kbd className="px-2 py-0.5 rounded border border-border bg-muted font-mono text-xs">
+    {formatShortcutKey(shortcut)}
+  </kbd>
+);
+
+export const ShortcutHelp = ({ open, onOpenChange, bindings, scopes }: ShortcutHelpProps) => {
+  // The current view's shortcuts first, global ones last
+  const activeScopes = [
+    ...scopes.filter(scope => scope !== 'global'),
+    ...(scopes.includes('global') ? ['global' as const] : []),
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>
+            Shortcuts available right now. You can change them in Settings.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          {activeScopes.map(scope => (
+            <div key={scope} className="space-y-2">
+              <p className="text-sm font-medium">{SHORTCUT_SCOPE_LABELS[scope]}</p>
+              {SHORTCUT_ACTIONS.filter(action => SHORTCUTS[action].scope === scope).map(action => (
+                <div key={action} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="text-muted-foreground">{SHORTCUTS[action].label}</span>
+                  <span className="flex gap-1">
+                    {getShortcutKeys(action, bindings).map(key => (
+                      <ShortcutKey key={key} shortcut={key} />
+                    ))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
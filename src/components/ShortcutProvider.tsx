@@ -0,0 +1,75 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from "react";
+import { ShortcutHelp } from "@/components/ShortcutHelp";
+import { ShortcutContext, ShortcutRegistration } from "@/hooks/useShortcuts";
+import {
+  getEventKey,
+  getShortcutKeys,
+  isTypingTarget,
+  ShortcutAction,
+  ShortcutBindings,
+} from "@/lib/shortcuts";
+
+interface ShortcutProviderProps {
+  bindings: ShortcutBindings;
+  children: ReactNode;
+}
+
+// Owns the single keydown listener: each key press goes to the most recently
+// registered view or mode that has an action bound to it, then to the global
+// shortcuts. "?" (by default) lists every shortcut that is active right now.
+export const ShortcutProvider = ({ bindings, children }: ShortcutProviderProps) => {
+  const [registrations, setRegistrations] = useState<ShortcutRegistration[]>([]);
+  const [showHelp, setShowHelp] = useState(false);
+
+  // Stable, so registering doesn't make every useShortcuts register again
+  const register = useCallback((registration: ShortcutRegistration) => {
+    setRegistrations(prev => [...prev, registration]);
+    return () => setRegistrations(prev => prev.filter(r => r !== registration));
+  }, []);
+  const context = useMemo(() => ({ bindings, register }), [bindings, register]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || isTypingTarget(e.target)) return;
+      const key = getEventKey(e);
+      if (!key) return;
+
+      if (getShortcutKeys('help', bindings).includes(key)) {
+        e.preventDefault();
+        setShowHelp(open => !open);
+        return;
+      }
+      if (showHelp) return;
+
+      // Views and modes take precedence over global shortcuts
+      const ordered = [
+        ...registrations.filter(r => r.scope !== 'global').reverse(),
+        ...registrations.filter(r => r.scope === 'global'),
+      ];
+      for (const { handlers } of ordered) {
+        const action = (Object.keys(handlers.current) as ShortcutAction[])
+          .find(action => getShortcutKeys(action, bindings).includes(key));
+        if (action) {
+          e.preventDefault();
+          handlers.current[action]?.();
+          return;
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, registrations, showHelp]);
+
+  return (
+    <ShortcutContext.Provider value={context}>
+      {children}
+      <ShortcutHelp
+        open={showHelp}
+        onOpenChange={setShowHelp}
+        bindings={bindings}
+        scopes={Array.from(new Set(registrations.map(r => r.scope)))}
+      />
+    </ShortcutContext.Provider>
+  );
+};
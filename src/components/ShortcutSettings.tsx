@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertTriangle, Keyboard, RotateCcw } from "lucide-react";
+import { ShortcutKey } from "@/components/ShortcutHelp";
+import {
+  findShortcutConflicts,
+  getEventKey,
+  getShortcutKeys,
+  SHORTCUT_ACTIONS,
+  SHORTCUT_SCOPE_LABELS,
+  ShortcutAction,
+  ShortcutBindings,
+  SHORTCUTS,
+  ShortcutScope,
+} from "@/lib/shortcuts";
+
+interface ShortcutSettingsProps {
+  bindings: ShortcutBindings;
+  onBindingsChange: (bindings: ShortcutBindings) => void;
+}
+
+const SCOPES = Object.keys(SHORTCUT_SCOPE_LABELS) as ShortcutScope[];
+
+export const ShortcutSettings = ({ bindings, onBindingsChange }: ShortcutSettingsProps) => {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const conflicts = findShortcutConflicts(bindings);
+
+  const isConflicting = (action: ShortcutAction, key: string) => {
+    return conflicts.some(conflict => conflict.key === key && conflict.actions.includes(action));
+  };
+
+  // Only bindings that differ from the defaults are stored
+  const setKeys = (action: ShortcutAction, keys: string[] | undefined) => {
+    const { [action]: _previous, ...rest } = bindings;
+    const isDefault = !keys || keys.join() === SHORTCUTS[action].keys.join();
+    onBindingsChange(isDefault ? rest : { ...rest, [action]: keys });
+  };
+
+  // The next key pressed becomes the action's shortcut; Escape cancels
+  const handleRecordKey = (action: ShortcutAction, e: React.KeyboardEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const key = getEventKey(e);
+    if (!key) return;
+    if (key !== 'Escape') setKeys(action, [key]);
+    setRecording(null);
+  };
+
+  return (
+    <Card className="flashcard">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Keyboard className="w-5 h-5 text-primary" />
+          Keyboard Shortcuts
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Click a shortcut and press the key to use instead. Shortcuts are ignored while typing in a text field.
+        </p>
+
+        {conflicts.length > 0 && (
+          <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-3 space-y-1">
+            <p className="text-sm font-medium text-destructive flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" />
+              Conflicting shortcuts
+            </p>
+            {conflicts.map(conflict => (
+              <p key={`${conflict.key}|${conflict.actions.join()}`} className="text-xs text-muted-foreground">
+                <ShortcutKey shortcut={conflict.key} /> is used by{" "}
+                {conflict.actions.map(action => SHORTCUTS[action].label).join(", ")}. Only one of them will run.
+              </p>
+            ))}
+          </div>
+        )}
+
+        {SCOPES.map(scope => (
+          <div key={scope} className="space-y-2">
+            <p className="text-sm font-medium">{SHORTCUT_SCOPE_LABELS[scope]}</p>
+            {SHORTCUT_ACTIONS.filter(action => SHORTCUTS[action].scope === scope).map(action => (
+              <div key={action} className="flex items-center justify-between gap-4">
+                <span className="text-sm text-muted-foreground">{SHORTCUTS[action].label}</span>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className={`h-8 min-w-[96px] ${recording === action ? "ring-2 ring-ring" : ""}`}
+                    onClick={() => setRecording(recording === action ? null : action)}
+                    onKeyDown={(e) => recording === action && handleRecordKey(action, e)}
+                    onBlur={() => recording === action && setRecording(null)}
+                  >
+                    {recording === action ? (
+                      <span className="text-xs">Press a key…</span>
+                    ) : (
+                      <span className="flex gap-1">
+                        {getShortcutKeys(action, bindings).map(key => (
+                          <span key={key} className={isConflicting(action, key) ? "text-destructive" : ""}>
+                            <ShortcutKey shortcut={key} />
+                          </span>
+                        ))}
+                      </span>
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2"
+                    onClick={() => setKeys(action, undefined)}
+                    disabled={!bindings[action]}
+                    title="Reset to default"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ))}
+
+        <Button
+          variant="outline"
+          onClick={() => onBindingsChange({})}
+          disabled={Object.keys(bindings).length === 0}
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset All Shortcuts
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
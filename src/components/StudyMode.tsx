@@ -1,66 +1,234 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToastAction } from "@/components/ui/toast";
 import { 
   RotateCcw, 
-  Check, 
-  X, 
   Shuffle, 
-  Filter,
+  ListOrdered,
+  Keyboard,
+  Layers,
+  ListChecks,
   Brain,
   Target,
   ArrowLeft,
-  ArrowRight
+  ArrowRight,
+  Flame,
+  Puzzle,
+  Tv,
+  EyeOff,
+  PauseCircle,
+  Pause,
+  Play,
+  Flag,
+  Clock,
+  FastForward,
+  X
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useLocalStorage } from "@/hooks/useLocalStorage";
-
-interface Flashcard {
-  id: string;
-  question: string;
-  answer: string;
-  tags: string[];
-  mastered: boolean;
-  reviewCount: number;
-  lastReviewed?: Date;
-}
+import { readLocalStorage, useLocalStorage } from "@/hooks/useLocalStorage";
+import { useStudyFilter } from "@/hooks/useStudyFilter";
+import { useShortcutBindings, useShortcuts } from "@/hooks/useShortcuts";
+import { AnswerDiff } from "@/components/AnswerDiff";
+import { QuizMode } from "@/components/QuizMode";
+import { CramMode } from "@/components/CramMode";
+import { MatchMode } from "@/components/MatchMode";
+import { AutoplayMode } from "@/components/AutoplayMode";
+import { ClozeText } from "@/components/ClozeText";
+import { SessionSummary } from "@/components/SessionSummary";
+import { TagFilterBuilder } from "@/components/TagFilterBuilder";
+import { AnswerComparison, compareAnswers } from "@/lib/answerMatching";
+import { describeFilter, matchesFilter } from "@/lib/cardFilter";
+import { formatDuration } from "@/lib/exam";
+import { Flashcard, formatInterval, Grade, GRADES, isDue } from "@/lib/flashcard";
+import { getReviewAheadCards } from "@/lib/forecast";
+import { createReviewLogEntry, ReviewDetails, ReviewLogEntry } from "@/lib/reviewLog";
+import { isLapse, LEECH_TAG, markLeech } from "@/lib/leech";
+import { applyStudyItem, buildAllStudyItems, buildStudyItems, StudyItem } from "@/lib/studyItems";
+import { previewIntervals, scheduleReview } from "@/lib/scheduler";
+import { StudySettings } from "@/lib/settings";
+import { describeShortcut, ShortcutAction } from "@/lib/shortcuts";
+import {
+  finishSession,
+  getSessionDuration,
+  pauseSession,
+  recordSessionReview,
+  resolveStudySession,
+  resumeSession,
+  SESSION_ARCHIVE_KEY,
+  STUDY_SESSION_KEY,
+  StudySession,
+} from "@/lib/studySession";
+import {
+  buildStudyQueue,
+  DAILY_PROGRESS_KEY,
+  DailyProgress,
+  getDayKey,
+  getTodayProgress,
+  isBuried,
+  recordDailyReview,
+  STUDY_FOCUS_KEY,
+  StudyFocus,
+} from "@/lib/session";
+import {
+  createSessionOrder,
+  ORDERING_LABELS,
+  OrderingStrategy,
+  removeFromSessionOrder,
+  reorderSessionOrder,
+  SessionOrder,
+  shuffleWithSeed,
+} from "@/lib/ordering";
+import {
+  advanceSessionOrder,
+  countWaitingItems,
+  formatLearningStep,
+  getRelearningItem,
+  isRelearning,
+  previewRelearningSteps,
+  recordRelearningAnswer,
+} from "@/lib/relearning";
 
 interface StudyModeProps {
   flashcards: Flashcard[];
-  onFlashcardUpdate: (flashcard: Flashcard) => void;
+  settings: StudySettings;
+  // Both return an id that undoes the change with onUndo
+  onFlashcardUpdate: (flashcard: Flashcard, label?: string, restore?: () => void) => string;
+  onReviewRecorded: (entry: ReviewLogEntry, flashcard?: Flashcard, restore?: () => void) => string;
+  onUndo: (undoId?: string) => void;
   onViewChange: (view: 'home') => void;
 }
 
-export const StudyMode = ({ flashcards, onFlashcardUpdate, onViewChange }: StudyModeProps) => {
+const GRADE_BUTTONS: Record<Grade, { label: string; shortcut: ShortcutAction; className: string }> = {
+  again: { label: "Again", shortcut: 'grade-again', className: "border-destructive text-destructive hover:bg-destructive/10" },
+  hard: { label: "Hard", shortcut: 'grade-hard', className: "border-warning text-warning hover:bg-warning/10" },
+  good: { label: "Good", shortcut: 'grade-good', className: "border-success text-success hover:bg-success/10" },
+  easy: { label: "Easy", shortcut: 'grade-easy', className: "border-primary text-primary hover:bg-primary/10" },
+};
+
+type AnswerMode = 'flip' | 'type' | 'quiz' | 'cram' | 'match' | 'autoplay';
+
+// Running time of the session, ticking on its own so the rest of the study
+// screen is not re-rendered every second
+const SessionClock = ({ session }: { session: StudySession }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  return (
+    <span className="flex items-center gap-1 text-muted-foreground">
+      <Clock className="w-3 h-3" />
+      {formatDuration(getSessionDuration(session, now))} • {session.cardsReviewed} reviewed
+    </span>
+  );
+};
+
+export const StudyMode = ({
+  flashcards,
+  settings,
+  onFlashcardUpdate,
+  onReviewRecorded,
+  onUndo,
+  onViewChange,
+}: StudyModeProps) => {
   const [isFlipped, setIsFlipped] = useState(false);
-  const [currentIndex, setCurrentIndex] = useLocalStorage('study-current-index', 0);
-  const [selectedTag, setSelectedTag] = useLocalStorage('study-selected-tag', 'all');
-  const [reviewedCards, setReviewedCards] = useLocalStorage('study-reviewed-cards', new Set<string>());
-  const [showMastered, setShowMastered] = useLocalStorage('study-show-mastered', false);
-  const [studySession, setStudySession] = useLocalStorage('study-session', {
-    startTime: Date.now(),
-    cardsReviewed: 0,
-    sessionProgress: {}
-  });
+  const [filter, setFilter] = useStudyFilter();
+  const [showAll, setShowAll] = useLocalStorage('study-show-all', false);
+  const [answerMode, setAnswerMode] = useLocalStorage<AnswerMode>('study-answer-mode', 'flip');
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [answerCheck, setAnswerCheck] = useState<AnswerComparison | null>(null);
+  const [ordering, setOrdering] = useLocalStorage<OrderingStrategy>('study-ordering', 'shuffled');
+  const [storedOrder, setStoredOrder] = useLocalStorage<SessionOrder | undefined>('study-session-order', undefined);
+  const [dailyProgress, setDailyProgress] = useLocalStorage<DailyProgress | undefined>(DAILY_PROGRESS_KEY, undefined);
+  const [focus, setFocus] = useLocalStorage<StudyFocus | null>(STUDY_FOCUS_KEY, null);
+  const [storedSession, setStudySession] = useLocalStorage<StudySession | null>(STUDY_SESSION_KEY, null);
+  const [, setSessionArchive] = useLocalStorage<StudySession[]>(SESSION_ARCHIVE_KEY, []);
+  const [finishedSession, setFinishedSession] = useState<StudySession | null>(null);
+  // When the current card was shown and first flipped, for recall times
+  const cardShownAt = useRef(Date.now());
+  const shortcutBindings = useShortcutBindings();
+  const cardFlippedAt = useRef<number | null>(null);
+  const answerInput = useRef<HTMLInputElement>(null);
+  const studySession = resolveStudySession(storedSession);
   const { toast } = useToast();
 
-  // Filter cards based on selected tag and mastered status
-  const filteredCards = useMemo(() => {
-    let cards = flashcards;
-    
-    if (selectedTag !== "all") {
-      cards = cards.filter(card => card.tags.includes(selectedTag));
-    }
-    
-    if (!showMastered) {
-      cards = cards.filter(card => !card.mastered);
-    }
-    
-    return cards;
-  }, [flashcards, selectedTag, showMastered]);
+  // Each card yields one study item per direction it is studied in
+  const studyItems = useMemo(
+    () => buildStudyItems(flashcards, settings.tagDirections),
+    [flashcards, settings.tagDirections]
+  );
+
+  // Filter cards with the tag filter, leaving out cards buried for today
+  const tagCards = useMemo(
+    () => studyItems.filter(card => !isBuried(card, settings.dayStartHour) && matchesFilter(card, filter)),
+    [studyItems, filter, settings.dayStartHour]
+  );
+
+  // Today's queue of due reviews and new cards within the daily limits
+  const studyQueue = useMemo(
+    () => buildStudyQueue(tagCards, dailyProgress, settings),
+    [tagCards, dailyProgress, settings]
+  );
+
+  // A focus set (e.g. missed exam cards) replaces the queue until it is cleared
+  const focusCards = useMemo(
+    () => focus ? studyItems.filter(item => focus.itemIds.includes(item.id)) : null,
+    [studyItems, focus]
+  );
+
+  const filteredCards = focusCards ?? (showAll ? tagCards : studyQueue.cards);
+
+  // Tomorrow's reviews, which can be studied early once today's are done
+  const reviewAheadCards = useMemo(
+    () => getReviewAheadCards(tagCards, settings.dayStartHour),
+    [tagCards, settings.dayStartHour]
+  );
+
+  // Distractors for the quiz may come from any item of any card
+  const quizPool = useMemo(() => buildAllStudyItems(flashcards), [flashcards]);
+
+  // The session keeps its card order until the filters, ordering or day change
+  const getSessionKey = (strategy: OrderingStrategy) => focus
+    ? `focus|${focus.id}|${strategy}`
+    : `${getDayKey(new Date(), settings.dayStartHour)}|${JSON.stringify(filter)}|${showAll}|${strategy}`;
+  const sessionKey = getSessionKey(ordering);
+  const isOrderCurrent = storedOrder?.key === sessionKey;
+  // Until a new order is stored the session is empty and nothing is shown
+  const sessionOrder = isOrderCurrent ? storedOrder : createSessionOrder([], ordering, sessionKey, 0);
+
+  // Build and store a new order whenever the session key changes
+  useEffect(() => {
+    if (isOrderCurrent) return;
+    setStoredOrder(createSessionOrder(filteredCards, ordering, sessionKey));
+    setIsFlipped(false);
+  }, [isOrderCurrent, filteredCards, ordering, sessionKey, setStoredOrder]);
+
+  // Cramming, the matching game and autoplay use every card of the
+  // selection, due or not, and run their own rounds outside the session
+  const cramCards = useMemo(
+    () => shuffleWithSeed(focusCards ?? tagCards, sessionOrder.seed),
+    [focusCards, tagCards, sessionOrder.seed]
+  );
+  const isPracticeMode = answerMode === 'cram' || answerMode === 'match' || answerMode === 'autoplay';
+
+  const sessionCards = useMemo(() => {
+    const itemsById = new Map(studyItems.map(item => [item.id, item]));
+    return sessionOrder.cardIds
+      .map(id => itemsById.get(id))
+      .filter((item): item is StudyItem => Boolean(item));
+  }, [studyItems, sessionOrder]);
+
+  const currentIndex = sessionOrder.position;
+  const setCurrentIndex = (position: number) => {
+    setStoredOrder({ ...sessionOrder, position });
+  };
 
   // Get all unique tags
   const allTags = useMemo(() => {
@@ -68,42 +236,84 @@ export const StudyMode = ({ flashcards, onFlashcardUpdate, onViewChange }: Study
     return Array.from(new Set(tags)).sort();
   }, [flashcards]);
 
-  const currentCard = filteredCards[currentIndex];
+  const currentCard = sessionCards[currentIndex];
+  const isSessionComplete = sessionCards.length > 0 && currentIndex >= sessionCards.length;
+  // Failed cards waiting to come back still count towards the session
+  const sessionLength = sessionCards.length + countWaitingItems(sessionOrder);
+  const relearningItem = currentCard && isRelearning(sessionOrder, currentCard.id)
+    ? getRelearningItem(sessionOrder, currentCard.id)
+    : undefined;
+  const today = getTodayProgress(dailyProgress, settings.dayStartHour);
 
-  // Reset when filters change
-  useEffect(() => {
-    setCurrentIndex(0);
-    setIsFlipped(false);
-  }, [selectedTag, showMastered]);
+  const gradeIntervals = useMemo(
+    () => currentCard ? previewIntervals(currentCard, settings) : undefined,
+    [currentCard, settings]
+  );
 
-  // Auto-advance on keyboard shortcuts
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.key === ' ') {
-        e.preventDefault();
-        handleFlip();
-      } else if (e.key === 'ArrowRight') {
-        e.preventDefault();
-        handleNext();
-      } else if (e.key === 'ArrowLeft') {
-        e.preventDefault();
-        handlePrevious();
-      } else if (e.key === 'm' && isFlipped) {
-        e.preventDefault();
-        handleMastered();
+  // Relearning answers move the card through the learning steps instead
+  const gradeLabels = useMemo(() => {
+    if (!gradeIntervals) return undefined;
+    const steps = relearningItem && previewRelearningSteps(relearningItem, settings.learningSteps);
+    return GRADES.reduce((labels, grade) => {
+      if (!steps) {
+        labels[grade] = formatInterval(gradeIntervals[grade]);
+      } else {
+        labels[grade] = steps[grade] !== undefined ? formatLearningStep(steps[grade]) : "done";
       }
-    };
+      return labels;
+    }, {} as Record<Grade, string>);
+  }, [gradeIntervals, relearningItem, settings.learningSteps]);
+
+  // Clear the typed answer and restart the response timer whenever another
+  // card is shown (or the same card comes back for relearning)
+  useEffect(() => {
+    setTypedAnswer('');
+    setAnswerCheck(null);
+    cardShownAt.current = Date.now();
+    cardFlippedAt.current = null;
+  }, [currentCard?.id, currentIndex, answerMode]);
+
+  // Keyboard shortcuts for flipping, navigating and grading; the quiz and
+  // practice modes register their own
+  const gradeShortcut = (grade: Grade) => () => {
+    if (isFlipped) handleReview(grade);
+  };
+  useShortcuts('study', {
+    'flip': () => handleFlip(),
+    'next-card': () => handleNext(),
+    'previous-card': () => handlePrevious(),
+    'bury': () => handleSetAside('bury'),
+    'suspend': () => handleSetAside('suspend'),
+    'grade-again': gradeShortcut('again'),
+    'grade-hard': gradeShortcut('hard'),
+    'grade-good': gradeShortcut('good'),
+    'grade-easy': gradeShortcut('easy'),
+  }, answerMode !== 'quiz' && !isPracticeMode && !studySession?.pausedAt);
 
-    window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [isFlipped, currentIndex, currentCard]);
+  const recordFlipTime = () => {
+    if (cardFlippedAt.current === null) cardFlippedAt.current = Date.now();
+  };
 
   const handleFlip = () => {
+    if (!isFlipped) recordFlipTime();
     setIsFlipped(!isFlipped);
   };
 
+  // Compare the typed answer and reveal the card with the result
+  const handleCheckAnswer = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentCard) return;
+    
+    setAnswerCheck(compareAnswers(typedAnswer, currentCard.answer));
+    recordFlipTime();
+    setIsFlipped(true);
+    // Shortcuts skip key presses in text fields, so the grade keys need the
+    // focus back
+    answerInput.current?.blur();
+  };
+
   const handleNext = () => {
-    if (currentIndex < filteredCards.length - 1) {
+    if (currentIndex < sessionCards.length - 1) {
       setCurrentIndex(currentIndex + 1);
       setIsFlipped(false);
     }
@@ -116,66 +326,257 @@ export const StudyMode = ({ flashcards, onFlashcardUpdate, onViewChange }: Study
     }
   };
 
-  const handleMastered = () => {
-    if (!currentCard) return;
-    
+  // Undoing an answer or a set-aside card puts the session back at the card
+  // as it was before, and reopens the session if that finished it. Only
+  // plain values are set, so undoing after leaving Study still reaches storage.
+  const restoreStudyState = (sessionId: string | undefined) => () => {
+    setStoredOrder(sessionOrder);
+    setDailyProgress(dailyProgress);
+    setStudySession(storedSession);
+    if (sessionId) {
+      const archive = readLocalStorage<StudySession[]>(SESSION_ARCHIVE_KEY, []);
+      setSessionArchive(archive.filter(archived => archived.id !== sessionId));
+    }
+    setFinishedSession(null);
+    setIsFlipped(false);
+  };
+
+  const undoAction = (undoId: string) => (
+    <ToastAction altText="Undo" onClick={() => onUndo(undoId)}>Undo</ToastAction>
+  );
+
+  // Schedule the card and record the answer in the review history
+  const recordReview = (card: StudyItem, grade: Grade, details: ReviewDetails) => {
+    const now = new Date();
     const updatedCard = {
-      ...currentCard,
-      mastered: !currentCard.mastered,
-      reviewCount: currentCard.reviewCount + 1,
-      lastReviewed: new Date(),
+      ...card,
+      ...scheduleReview(card, grade, settings, now),
+      reviewCount: card.reviewCount + 1,
+      lastReviewed: now,
+      lapses: (card.lapses ?? 0) + (isLapse(card, grade) ? 1 : 0),
     };
     
-    onFlashcardUpdate(updatedCard);
-    const newReviewedCards = new Set(reviewedCards);
-    newReviewedCards.add(currentCard.id);
-    setReviewedCards(newReviewedCards);
+    // Cards forgotten too often are tagged as leeches, and maybe suspended
+    let leech: Flashcard | undefined;
+    let checked: Flashcard | undefined;
+    const flashcard = flashcards.find(c => c.id === card.cardId);
+    if (flashcard) {
+      const reviewed = applyStudyItem(flashcard, updatedCard);
+      checked = markLeech(reviewed, updatedCard.lapses, settings.leech);
+      if (checked !== reviewed) leech = checked;
+    }
+    setDailyProgress(recordDailyReview(dailyProgress, card, settings.dayStartHour, now));
     
-    // Update study session
-    setStudySession(prev => ({
-      ...prev,
-      cardsReviewed: prev.cardsReviewed + 1,
-      sessionProgress: {
-        ...prev.sessionProgress,
-        [currentCard.id]: {
-          reviewedAt: Date.now(),
-          mastered: !currentCard.mastered
-        }
-      }
-    }));
+    // The first review starts a study session
+    const session = recordSessionReview(studySession, card, updatedCard, grade, now.getTime());
+    setStudySession(session);
+    const undoId = onReviewRecorded(
+      createReviewLogEntry(card.cardId, grade, now.getTime(), card.direction, card.cloze?.number, {
+        ...details,
+        sessionId: session.id,
+      }),
+      checked,
+      restoreStudyState(session.id)
+    );
+
+    if (leech) {
+      toast({
+        title: "Leech detected",
+        description: leech.suspended
+          ? `Forgotten ${updatedCard.lapses} times, so it was tagged "${LEECH_TAG}" and suspended. Consider rewriting it.`
+          : `Forgotten ${updatedCard.lapses} times, so it was tagged "${LEECH_TAG}". Consider rewriting it.`,
+        variant: "destructive",
+        action: undoAction(undoId),
+      });
+    }
+
+    return { updatedCard, leech, undoId, session };
+  };
+
+  // Answers to a card being relearned are logged but leave its schedule
+  // alone; it was already rescheduled when it was failed
+  const recordRelearningReview = (card: StudyItem, grade: Grade, details: ReviewDetails) => {
+    const now = Date.now();
+    const session = recordSessionReview(studySession, card, card, grade, now);
+    setStudySession(session);
+    const undoId = onReviewRecorded(
+      createReviewLogEntry(card.cardId, grade, now, card.direction, card.cloze?.number, {
+        ...details,
+        sessionId: session.id,
+      }),
+      undefined,
+      restoreStudyState(session.id)
+    );
+    return { undoId, session };
+  };
+
+  // Moving past the last card (with nothing left to relearn) finishes the
+  // session
+  const setOrderAndFinish = (order: SessionOrder, session: StudySession | null) => {
+    setStoredOrder(order);
+    setIsFlipped(false);
+    if (session && order.cardIds.length > 0 && order.position >= order.cardIds.length) {
+      handleFinishSession(session);
+    }
+  };
+
+  // Quiz answers pass their own details; flip and type answers are timed here
+  const handleReview = (grade: Grade, quizDetails?: ReviewDetails) => {
+    if (!currentCard) return;
     
+    const now = Date.now();
+    const wasRelearning = isRelearning(sessionOrder, currentCard.id);
+    const nextOrder = recordRelearningAnswer(sessionOrder, currentCard.id, grade, settings.learningSteps, now);
+    const requeued = getRelearningItem(nextOrder, currentCard.id);
+    const comesBack = requeued
+      ? ` You'll see it again in ${formatLearningStep(settings.learningSteps[requeued.step])}.`
+      : '';
+    const details: ReviewDetails = quizDetails ?? {
+      mode: answerMode === 'type' ? 'type' : 'flip',
+      recallMs: (cardFlippedAt.current ?? now) - cardShownAt.current,
+      responseMs: now - cardShownAt.current,
+    };
+
+    // Graded cards stay in the session order and failed ones are slotted
+    // back in; the session completes once nothing is left to relearn
+    let order = advanceSessionOrder(nextOrder, now);
+    let session: StudySession;
+    if (wasRelearning) {
+      const relearned = recordRelearningReview(currentCard, grade, details);
+      session = relearned.session;
+      toast({
+        title: `${GRADE_BUTTONS[grade].label} • ${requeued ? "relearning" : "relearned"}`,
+        description: requeued
+          ? comesBack.trim()
+          : `Next review in ${formatInterval(currentCard.interval)}.`,
+        action: undoAction(relearned.undoId),
+      });
+    } else {
+      const reviewed = recordReview(currentCard, grade, details);
+      const { updatedCard, leech } = reviewed;
+      session = reviewed.session;
+      // The leech warning takes priority over the scheduling toast
+      if (!leech) {
+        toast({
+          title: `${GRADE_BUTTONS[grade].label} • review scheduled`,
+          description: `Next review in ${formatInterval(updatedCard.interval)}.${comesBack}`,
+          action: undoAction(reviewed.undoId),
+        });
+      }
+      if (leech?.suspended) {
+        // A suspended leech leaves the rest of the session as well
+        const itemIds = sessionCards.filter(item => item.cardId === leech.id).map(item => item.id);
+        order = removeFromSessionOrder(order, itemIds);
+      }
+    }
+
+    setOrderAndFinish(order, session);
+  };
+
+  // Quiz answers are graded like flip answers, so missed cards come back for
+  // relearning and the last answer finishes the session
+  const handleQuizAnswer = (card: StudyItem, correct: boolean, responseMs: number) => {
+    if (currentCard?.id !== card.id) return;
+    handleReview(correct ? 'good' : 'again', { mode: 'quiz', responseMs });
+  };
+
+  // Take the current card out of rotation, with all its directions: a
+  // suspended card stays out until unsuspended, a buried one until tomorrow
+  const handleSetAside = (action: 'suspend' | 'bury') => {
+    if (!currentCard) return;
+    const flashcard = flashcards.find(c => c.id === currentCard.cardId);
+    if (!flashcard) return;
+
+    const undoId = onFlashcardUpdate(action === 'suspend'
+      ? { ...flashcard, suspended: true }
+      : { ...flashcard, buriedDay: getDayKey(new Date(), settings.dayStartHour) },
+    action === 'suspend' ? 'Suspend card' : 'Bury card',
+    restoreStudyState(studySession?.id));
+    const itemIds = sessionCards.filter(item => item.cardId === flashcard.id).map(item => item.id);
+    setOrderAndFinish(removeFromSessionOrder(sessionOrder, itemIds), studySession);
+
     toast({
-      title: currentCard.mastered ? "Card unmarked" : "Card mastered!",
-      description: currentCard.mastered 
-        ? "Keep studying this card" 
-        : "Great progress! Moving to next card.",
+      title: action === 'suspend' ? "Card suspended" : "Card buried",
+      description: action === 'suspend'
+        ? "It stays out of study until you unsuspend it from Analytics."
+        : "It will be back in tomorrow's queue.",
+      action: undoAction(undoId),
     });
+  };
 
-    if (!currentCard.mastered) {
-      // Auto-advance to next card after marking as mastered
-      setTimeout(() => {
-        if (currentIndex < filteredCards.length - 1) {
-          handleNext();
-        }
-      }, 1000);
+  const handlePauseSession = () => {
+    if (studySession) setStudySession(pauseSession(studySession));
+  };
+
+  const handleResumeSession = () => {
+    if (!studySession) return;
+    // Time spent paused doesn't count towards the current card's recall and
+    // response times
+    if (studySession.pausedAt) {
+      const pausedMs = Date.now() - studySession.pausedAt;
+      cardShownAt.current += pausedMs;
+      if (cardFlippedAt.current !== null) cardFlippedAt.current += pausedMs;
     }
+    setStudySession(resumeSession(studySession));
   };
 
-  const handleShuffle = () => {
-    // This is a simplified shuffle - in a real app you'd implement Fisher-Yates
-    setCurrentIndex(Math.floor(Math.random() * filteredCards.length));
+  // Archive the session and show its summary
+  const handleFinishSession = (session: StudySession | null = studySession) => {
+    if (!session) return;
+    const finished = finishSession(session);
+    setSessionArchive(prev => [...prev, finished]);
+    setStudySession(null);
+    setFinishedSession(finished);
+  };
+
+  const handleStudyMissed = () => {
+    if (!finishedSession) return;
+    setFocus({
+      id: finishedSession.id,
+      label: `Missed this session (${finishedSession.missedItemIds.length})`,
+      itemIds: finishedSession.missedItemIds,
+    });
+    setFinishedSession(null);
+  };
+
+  // Study tomorrow's cards now; their next reviews are scheduled from today
+  const handleReviewAhead = () => {
+    setFocus({
+      id: `ahead-${Date.now().toString(36)}`,
+      label: `Reviewing ahead (${reviewAheadCards.length})`,
+      itemIds: reviewAheadCards.map(item => item.id),
+    });
+  };
+
+  // Rebuild the session order from the current queue with a fresh seed
+  const handleRestartSession = () => {
+    setStoredOrder(createSessionOrder(filteredCards, ordering, sessionKey));
+    setIsFlipped(false);
+  };
+
+  // A new ordering applies to the cards still ahead; the session keeps its
+  // progress and the cards waiting to be relearned
+  const handleOrderingChange = (strategy: OrderingStrategy) => {
+    setOrdering(strategy);
+    setStoredOrder(reorderSessionOrder(sessionOrder, sessionCards, strategy, getSessionKey(strategy)));
     setIsFlipped(false);
+  };
+
+  const handleShuffle = () => {
+    handleOrderingChange('shuffled');
     
     toast({
       title: "Cards shuffled",
-      description: "Jumping to a random card for varied practice.",
+      description: "The remaining session has a new random order.",
     });
   };
 
-  const progressPercentage = filteredCards.length > 0 
-    ? ((currentIndex + 1) / filteredCards.length) * 100 
+  const progressPercentage = sessionLength > 0 
+    ? (Math.min(currentIndex + 1, sessionLength) / sessionLength) * 100 
     : 0;
 
+  if (!isOrderCurrent && flashcards.length > 0) return null;
+
   if (flashcards.length === 0) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
@@ -198,7 +599,52 @@ export const StudyMode = ({ flashcards, onFlashcardUpdate, onViewChange }: Study
     );
   }
 
-  if (filteredCards.length === 0) {
+  if (finishedSession) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center px-4 py-8">
+        <SessionSummary
+          session={finishedSession}
+          items={studyItems}
+          onStudyMissed={handleStudyMissed}
+          onStartNext={filteredCards.length > 0 ? () => {
+            setFinishedSession(null);
+            handleRestartSession();
+          } : undefined}
+          onViewChange={onViewChange}
+        />
+      </div>
+    );
+  }
+
+  if (studySession?.pausedAt) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
+        <Card className="flashcard max-w-md mx-auto text-center">
+          <CardContent className="pt-8 pb-8 space-y-4">
+            <div className="w-16 h-16 bg-gradient-hero rounded-full flex items-center justify-center mx-auto">
+              <Pause className="w-8 h-8 text-white" />
+            </div>
+            <h2 className="text-xl font-semibold">Session Paused</h2>
+            <p className="text-muted-foreground">
+              {studySession.cardsReviewed} cards reviewed in {formatDuration(getSessionDuration(studySession))}.
+            </p>
+            <div className="flex flex-col gap-2">
+              <Button onClick={handleResumeSession} className="btn-corporate">
+                <Play className="w-4 h-4 mr-2" />
+                Resume Session
+              </Button>
+              <Button onClick={() => handleFinishSession()} variant="outline">
+                <Flag className="w-4 h-4 mr-2" />
+                Finish Session
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (sessionCards.length === 0 && !isPracticeMode) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
         <Card className="flashcard max-w-md mx-auto text-center">
@@ -206,17 +652,89 @@ export const StudyMode = ({ flashcards, onFlashcardUpdate, onViewChange }: Study
             <div className="w-16 h-16 bg-gradient-success rounded-full flex items-center justify-center mx-auto">
               <Target className="w-8 h-8 text-white" />
             </div>
-            <h2 className="text-xl font-semibold">All Cards Mastered!</h2>
+            <h2 className="text-xl font-semibold">All Caught Up!</h2>
             <p className="text-muted-foreground">
-              Congratulations! You've mastered all cards in this category.
+              {tagCards.some(card => isDue(card))
+                ? "You've reached today's new card and review limits for this category."
+                : "No cards in this category are due for review right now."}
             </p>
             <div className="flex flex-col gap-2">
-              <Button 
-                onClick={() => setShowMastered(true)} 
-                variant="outline"
-              >
-                Review Mastered Cards
+              {filteredCards.length > 0 ? (
+                <Button 
+                  onClick={() => handleRestartSession()} 
+                  variant="outline"
+                >
+                  Start New Session
+                </Button>
+              ) : (
+                <Button 
+                  onClick={() => setShowAll(true)} 
+                  variant="outline"
+                >
+                  Study All Cards Anyway
+                </Button>
+              )}
+              {reviewAheadCards.length > 0 && (
+                <Button onClick={handleReviewAhead} variant="outline">
+                  <FastForward className="w-4 h-4 mr-2" />
+                  Review Ahead ({reviewAheadCards.length} due by tomorrow)
+                </Button>
+              )}
+              {tagCards.length > 0 && (
+                <Button onClick={() => setAnswerMode('cram')} variant="outline">
+                  <Flame className="w-4 h-4 mr-2" />
+                  Cram Without Scheduling
+                </Button>
+              )}
+              {tagCards.length > 0 && (
+                <Button onClick={() => setAnswerMode('match')} variant="outline">
+                  <Puzzle className="w-4 h-4 mr-2" />
+                  Play Matching Game
+                </Button>
+              )}
+              <Button onClick={() => onViewChange('home')} className="btn-corporate">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Home
               </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isSessionComplete && !isPracticeMode) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
+        <Card className="flashcard max-w-md mx-auto text-center">
+          <CardContent className="pt-8 pb-8 space-y-4">
+            <div className="w-16 h-16 bg-gradient-success rounded-full flex items-center justify-center mx-auto">
+              <Target className="w-8 h-8 text-white" />
+            </div>
+            <h2 className="text-xl font-semibold">Session Complete!</h2>
+            <p className="text-muted-foreground">
+              You worked through all {new Set(sessionOrder.cardIds).size} cards in this session.
+            </p>
+            <div className="flex flex-col gap-2">
+              {filteredCards.length > 0 && (
+                <Button 
+                  onClick={() => handleRestartSession()} 
+                  variant="outline"
+                >
+                  Start Next Session ({filteredCards.length} cards)
+                </Button>
+              )}
+              {!focus && reviewAheadCards.length > 0 && (
+                <Button onClick={handleReviewAhead} variant="outline">
+                  <FastForward className="w-4 h-4 mr-2" />
+                  Review Ahead ({reviewAheadCards.length} due by tomorrow)
+                </Button>
+              )}
+              {focus && (
+                <Button onClick={() => setFocus(null)} variant="outline">
+                  Back to Daily Queue
+                </Button>
+              )}
               <Button onClick={() => onViewChange('home')} className="btn-corporate">
                 <ArrowLeft className="w-4 h-4 mr-2" />
                 Back to Home
@@ -228,7 +746,7 @@ export const StudyMode = ({ flashcards, onFlashcardUpdate, onViewChange }: Study
     );
   }
 
-  if (!currentCard) {
+  if (!currentCard && !isPracticeMode) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
         <Card className="flashcard max-w-md mx-auto text-center">
@@ -258,179 +776,332 @@ export const StudyMode = ({ flashcards, onFlashcardUpdate, onViewChange }: Study
           <div className="space-y-1">
             <h1 className="text-2xl font-bold text-foreground">Study Session</h1>
             <p className="text-muted-foreground">
-              Press Space to flip • Arrow keys to navigate • M to mark mastered
+              Press {describeShortcut('flip', shortcutBindings)} to flip
+              {" "}• {describeShortcut('previous-card', shortcutBindings)} {describeShortcut('next-card', shortcutBindings)} to navigate
+              {" "}• {describeShortcut('bury', shortcutBindings)} to bury
+              {" "}• {describeShortcut('suspend', shortcutBindings)} to suspend
+              {" "}• {describeShortcut('help', shortcutBindings)} for all shortcuts
             </p>
+            {studySession && (
+              <div className="flex items-center gap-2 text-xs">
+                <SessionClock session={studySession} />
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={handlePauseSession}>
+                  <Pause className="w-3 h-3 mr-1" />
+                  Pause
+                </Button>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => handleFinishSession()}>
+                  <Flag className="w-3 h-3 mr-1" />
+                  Finish
+                </Button>
+              </div>
+            )}
+            {focus && (
+              <div className="flex items-center gap-2 text-xs">
+                <Badge variant="outline" className="border-accent text-accent">{focus.label}</Badge>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setFocus(null)}>
+                  <X className="w-3 h-3 mr-1" />
+                  Back to daily queue
+                </Button>
+              </div>
+            )}
+            {!showAll && !focus && (
+              <div className="flex gap-2 text-xs">
+                <Badge variant="outline" className="border-primary text-primary">{studyQueue.counts.new} new</Badge>
+                <Badge variant="outline" className="border-warning text-warning">{studyQueue.counts.learning} learning</Badge>
+                <Badge variant="outline" className="border-success text-success">{studyQueue.counts.review} due</Badge>
+              </div>
+            )}
           </div>
           
-          <div className="flex items-center gap-2">
-            <Select value={selectedTag} onValueChange={setSelectedTag}>
-              <SelectTrigger className="w-[180px]">
-                <Filter className="w-4 h-4 mr-2" />
-                <SelectValue placeholder="Filter by category" />
+          <div className="flex flex-wrap items-center gap-2">
+            <TagFilterBuilder filter={filter} onFilterChange={setFilter} tags={allTags} />
+            
+            <Select value={ordering} onValueChange={(value) => handleOrderingChange(value as OrderingStrategy)}>
+              <SelectTrigger className="w-[200px]">
+                <ListOrdered className="w-4 h-4 mr-2" />
+                <SelectValue placeholder="Card order" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Categories</SelectItem>
-                {allTags.map(tag => (
-                  <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                {(Object.keys(ORDERING_LABELS) as OrderingStrategy[]).map(strategy => (
+                  <SelectItem key={strategy} value={strategy}>{ORDERING_LABELS[strategy]}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
             
+            <Select value={answerMode} onValueChange={(value) => setAnswerMode(value as AnswerMode)}>
+              <SelectTrigger className="w-[160px]">
+                {answerMode === 'type' && <Keyboard className="w-4 h-4 mr-2" />}
+                {answerMode === 'flip' && <Layers className="w-4 h-4 mr-2" />}
+                {answerMode === 'quiz' && <ListChecks className="w-4 h-4 mr-2" />}
+                {answerMode === 'cram' && <Flame className="w-4 h-4 mr-2" />}
+                {answerMode === 'match' && <Puzzle className="w-4 h-4 mr-2" />}
+                {answerMode === 'autoplay' && <Tv className="w-4 h-4 mr-2" />}
+                <SelectValue placeholder="Study mode" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="flip">Flip cards</SelectItem>
+                <SelectItem value="type">Type answer</SelectItem>
+                <SelectItem value="quiz">Multiple choice</SelectItem>
+                <SelectItem value="cram">Cram (no scheduling)</SelectItem>
+                <SelectItem value="match">Matching game</SelectItem>
+                <SelectItem value="autoplay">Autoplay (hands-free)</SelectItem>
+              </SelectContent>
+            </Select>
+            
             <Button
               variant="outline"
               size="sm"
               onClick={handleShuffle}
-              disabled={filteredCards.length <= 1}
+              disabled={sessionCards.length <= 1}
             >
               <Shuffle className="w-4 h-4" />
             </Button>
           </div>
         </div>
 
-        {/* Progress Bar */}
-        <div className="mb-8 space-y-2">
-          <div className="flex justify-between text-sm text-muted-foreground">
-            <span>Progress</span>
-            <span>{currentIndex + 1} of {filteredCards.length}</span>
+        {answerMode === 'quiz' ? (
+          <QuizMode
+            key={sessionOrder.seed}
+            card={currentCard}
+            position={currentIndex}
+            total={sessionLength}
+            pool={quizPool}
+            seed={sessionOrder.seed}
+            onAnswer={handleQuizAnswer}
+          />
+        ) : answerMode === 'cram' ? (
+          <CramMode
+            key={`${sessionKey}|${sessionOrder.seed}`}
+            cards={cramCards}
+            onViewChange={onViewChange}
+          />
+        ) : answerMode === 'match' ? (
+          <MatchMode
+            key={sessionKey}
+            cards={cramCards}
+            board={focus ? focus.label : describeFilter(filter) || "All cards"}
+            onViewChange={onViewChange}
+          />
+        ) : answerMode === 'autoplay' ? (
+          <AutoplayMode
+            key={`${sessionKey}|${sessionOrder.seed}`}
+            cards={cramCards}
+            onViewChange={onViewChange}
+          />
+        ) : (
+          <>
+          {/* Progress Bar */}
+          <div className="mb-8 space-y-2">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>
+                Progress
+                {relearningItem && (
+                  <Badge variant="outline" className="ml-2 text-xs border-warning text-warning">Relearning</Badge>
+                )}
+              </span>
+              <span>{currentIndex + 1} of {sessionLength}</span>
+            </div>
+            <Progress value={progressPercentage} className="h-2" />
           </div>
-          <Progress value={progressPercentage} className="h-2" />
-        </div>
 
-        {/* Flashcard */}
-        <div className="perspective-1000 mb-8">
-          <div 
-            className={`flashcard-flip relative w-full h-96 cursor-pointer ${isFlipped ? 'flipped' : ''}`}
-            onClick={handleFlip}
-          >
-            {/* Question Side */}
-            <div className="flashcard-face flashcard bg-gradient-card border-2 rounded-2xl p-8 flex flex-col justify-between">
-              <div className="flex justify-between items-start mb-4">
-                <Badge variant="outline" className="text-xs">Question</Badge>
-                <div className="flex gap-1">
-                  {currentCard.tags.map(tag => (
-                    <Badge key={tag} variant="secondary" className="text-xs">
-                      {tag}
-                    </Badge>
-                  ))}
+          {/* Flashcard */}
+          <div className="perspective-1000 mb-8">
+            <div 
+              className={`flashcard-flip relative w-full h-96 cursor-pointer ${isFlipped ? 'flipped' : ''}`}
+              onClick={handleFlip}
+            >
+              {/* Question Side */}
+              <div className="flashcard-face flashcard bg-gradient-card border-2 rounded-2xl p-8 flex flex-col justify-between">
+                <div className="flex justify-between items-start mb-4">
+                  <Badge variant="outline" className="text-xs">
+                    {currentCard.cloze && `Cloze ${currentCard.cloze.number}`}
+                    {!currentCard.cloze && (currentCard.direction === 'reverse' ? "Reverse" : "Question")}
+                  </Badge>
+                  <div className="flex gap-1">
+                    {currentCard.tags.map(tag => (
+                      <Badge key={tag} variant="secondary" className="text-xs">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
                 </div>
-              </div>
               
-              <div className="flex-1 flex items-center justify-center">
-                <p className="text-lg text-center leading-relaxed">
-                  {currentCard.question}
-                </p>
-              </div>
+                <div className="flex-1 flex items-center justify-center">
+                  <p className="text-lg text-center leading-relaxed">
+                    {currentCard.cloze ? (
+                      <ClozeText
+                        text={currentCard.cloze.text}
+                        activeNumber={currentCard.cloze.number}
+                        revealed={false}
+                      />
+                    ) : (
+                      currentCard.question
+                    )}
+                  </p>
+                </div>
               
-              <div className="text-center">
-                <p className="text-xs text-muted-foreground">
-                  Click or press Space to reveal answer
-                </p>
+                {answerMode === 'type' ? (
+                  <form
+                    key={`${currentCard.id}|${currentIndex}`}
+                    onSubmit={handleCheckAnswer}
+                    onClick={(e) => e.stopPropagation()}
+                    className="flex gap-2"
+                  >
+                    <Input
+                      ref={answerInput}
+                      autoFocus
+                      readOnly={answerCheck !== null}
+                      placeholder="Type your answer and press Enter..."
+                      value={typedAnswer}
+                      onChange={(e) => setTypedAnswer(e.target.value)}
+                      className="form-field"
+                    />
+                    <Button type="submit" variant="outline" disabled={!typedAnswer.trim() || answerCheck !== null}>
+                      Check
+                    </Button>
+                  </form>
+                ) : (
+                  <div className="text-center">
+                    <p className="text-xs text-muted-foreground">
+                      Click or press {describeShortcut('flip', shortcutBindings)} to reveal answer
+                    </p>
+                  </div>
+                )}
               </div>
-            </div>
 
-            {/* Answer Side */}
-            <div className="flashcard-face flashcard-back flashcard bg-gradient-to-br from-primary/5 to-accent/5 border-2 border-primary/20 rounded-2xl p-8 flex flex-col justify-between">
-              <div className="flex justify-between items-start mb-4">
-                <Badge className="text-xs bg-primary text-primary-foreground">Answer</Badge>
-                <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                  <span>Reviewed:</span>
-                  <span>{currentCard.reviewCount}x</span>
+              {/* Answer Side */}
+              <div className="flashcard-face flashcard-back flashcard bg-gradient-to-br from-primary/5 to-accent/5 border-2 border-primary/20 rounded-2xl p-8 flex flex-col justify-between">
+                <div className="flex justify-between items-start mb-4">
+                  <Badge className="text-xs bg-primary text-primary-foreground">Answer</Badge>
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <span>Reviewed:</span>
+                    <span>{currentCard.reviewCount}x</span>
+                    {currentCard.interval > 0 && (
+                      <span>• Interval: {formatInterval(currentCard.interval)}</span>
+                    )}
+                  </div>
                 </div>
-              </div>
               
-              <div className="flex-1 flex items-center justify-center">
-                <p className="text-lg text-center leading-relaxed">
-                  {currentCard.answer}
-                </p>
-              </div>
+                <div className="flex-1 flex flex-col items-center justify-center gap-3">
+                  <p className="text-lg text-center leading-relaxed">
+                    {currentCard.cloze ? (
+                      <ClozeText
+                        text={currentCard.cloze.text}
+                        activeNumber={currentCard.cloze.number}
+                        revealed
+                      />
+                    ) : (
+                      currentCard.answer
+                    )}
+                  </p>
+                  {currentCard.cloze?.extra && (
+                    <p className="text-sm text-center text-muted-foreground">
+                      {currentCard.cloze.extra}
+                    </p>
+                  )}
+                </div>
               
-              <div className="text-center">
-                <p className="text-xs text-muted-foreground">
-                  How well did you know this?
-                </p>
+                <div className="text-center">
+                  <p className="text-xs text-muted-foreground">
+                    How well did you know this?
+                  </p>
+                </div>
               </div>
             </div>
           </div>
-        </div>
 
-        {/* Action Buttons */}
-        <div className="flex flex-col sm:flex-row gap-4 justify-center items-center">
-          <div className="flex gap-2">
-            <Button
-              variant="outline"
-              onClick={handlePrevious}
-              disabled={currentIndex === 0}
-            >
-              <ArrowLeft className="w-4 h-4 mr-2" />
-              Previous
-            </Button>
-            
-            <Button
-              variant="outline"
-              onClick={handleNext}
-              disabled={currentIndex === filteredCards.length - 1}
-            >
-              Next
-              <ArrowRight className="w-4 h-4 ml-2" />
-            </Button>
-          </div>
+          {/* Typed Answer Result */}
+          {isFlipped && answerCheck && (
+            <div className="mb-8">
+              <AnswerDiff comparison={answerCheck} />
+            </div>
+          )}
 
-          {isFlipped && (
+          {/* Action Buttons */}
+          <div className="flex flex-col sm:flex-row gap-4 justify-center items-center">
             <div className="flex gap-2">
               <Button
                 variant="outline"
-                onClick={handleMastered}
-                className={currentCard.mastered 
-                  ? "border-warning text-warning hover:bg-warning/10" 
-                  : "border-success text-success hover:bg-success/10"
-                }
+                onClick={handlePrevious}
+                disabled={currentIndex === 0}
               >
-                {currentCard.mastered ? (
-                  <>
-                    <X className="w-4 h-4 mr-2" />
-                    Unmark
-                  </>
-                ) : (
-                  <>
-                    <Check className="w-4 h-4 mr-2" />
-                    Mastered
-                  </>
-                )}
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Previous
+              </Button>
+            
+              <Button
+                variant="outline"
+                onClick={handleNext}
+                disabled={currentIndex === sessionCards.length - 1}
+              >
+                Next
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </Button>
+
+              <Button variant="ghost" onClick={() => handleSetAside('bury')}>
+                <EyeOff className="w-4 h-4 mr-2" />
+                Bury
               </Button>
-            </div>
-          )}
-        </div>
 
-        {/* Study Stats */}
-        <div className="mt-8 grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
-          <div className="bg-white/50 dark:bg-black/20 rounded-lg p-3 border border-border">
-            <div className="text-lg font-semibold text-foreground">
-              {reviewedCards instanceof Set ? reviewedCards.size : Object.keys(reviewedCards || {}).length}
+              <Button variant="ghost" onClick={() => handleSetAside('suspend')}>
+                <PauseCircle className="w-4 h-4 mr-2" />
+                Suspend
+              </Button>
             </div>
-            <div className="text-xs text-muted-foreground">Reviewed Today</div>
+
+            {isFlipped && (
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {GRADES.map(grade => (
+                  <Button
+                    key={grade}
+                    variant="outline"
+                    onClick={() => handleReview(grade)}
+                    className={`flex-col h-auto py-2 ${GRADE_BUTTONS[grade].className} ${
+                      answerCheck?.suggestedGrade === grade ? 'ring-2 ring-ring ring-offset-2' : ''
+                    }`}
+                  >
+                    <span className="font-medium">{GRADE_BUTTONS[grade].label}</span>
+                    <span className="text-xs opacity-80">
+                      {describeShortcut(GRADE_BUTTONS[grade].shortcut, shortcutBindings)} • {gradeLabels[grade]}
+                    </span>
+                  </Button>
+                ))}
+              </div>
+            )}
           </div>
+
+          {/* Study Stats */}
+          <div className="mt-8 grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+            <div className="bg-white/50 dark:bg-black/20 rounded-lg p-3 border border-border">
+              <div className="text-lg font-semibold text-foreground">
+                {today.introducedCardIds.length + today.reviewsDone}
+              </div>
+              <div className="text-xs text-muted-foreground">Reviewed Today</div>
+            </div>
           
-          <div className="bg-white/50 dark:bg-black/20 rounded-lg p-3 border border-border">
-            <div className="text-lg font-semibold text-success">
-              {flashcards.filter(c => c.mastered).length}
+            <div className="bg-white/50 dark:bg-black/20 rounded-lg p-3 border border-border">
+              <div className="text-lg font-semibold text-success">
+                {studyItems.filter(item => item.mastered).length}
+              </div>
+              <div className="text-xs text-muted-foreground">Total Mastered</div>
             </div>
-            <div className="text-xs text-muted-foreground">Total Mastered</div>
-          </div>
           
-          <div className="bg-white/50 dark:bg-black/20 rounded-lg p-3 border border-border">
-            <div className="text-lg font-semibold text-accent">
-              {filteredCards.length - currentIndex - 1}
+            <div className="bg-white/50 dark:bg-black/20 rounded-lg p-3 border border-border">
+              <div className="text-lg font-semibold text-accent">
+                {sessionLength - currentIndex - 1}
+              </div>
+              <div className="text-xs text-muted-foreground">Cards Remaining</div>
             </div>
-            <div className="text-xs text-muted-foreground">Cards Remaining</div>
-          </div>
           
-          <div className="bg-white/50 dark:bg-black/20 rounded-lg p-3 border border-border">
-            <div className="text-lg font-semibold text-primary">
-              {Math.round(progressPercentage)}%
+            <div className="bg-white/50 dark:bg-black/20 rounded-lg p-3 border border-border">
+              <div className="text-lg font-semibold text-primary">
+                {Math.round(progressPercentage)}%
+              </div>
+              <div className="text-xs text-muted-foreground">Session Progress</div>
             </div>
-            <div className="text-xs text-muted-foreground">Session Progress</div>
           </div>
-        </div>
+          </>
+        )}
       </div>
     </div>
   );
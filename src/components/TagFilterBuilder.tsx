@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Filter, Save, Trash2, X } from "lucide-react";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import {
+  CardFilter,
+  describeFilter,
+  EMPTY_FILTER,
+  FILTER_PRESETS_KEY,
+  FilterPreset,
+  isEmptyFilter,
+  MasteryFilter,
+  TagMatch,
+} from "@/lib/cardFilter";
+
+interface TagFilterBuilderProps {
+  filter: CardFilter;
+  onFilterChange: (filter: CardFilter) => void;
+  tags: string[];
+}
+
+type NumberField = 'minReviews' | 'maxReviews' | 'reviewedWithinDays' | 'notReviewedForDays';
+
+export const TagFilterBuilder = ({ filter, onFilterChange, tags }: TagFilterBuilderProps) => {
+  const [presets, setPresets] = useLocalStorage<FilterPreset[]>(FILTER_PRESETS_KEY, []);
+  const [presetName, setPresetName] = useState('');
+
+  // Clicking a tag cycles it through included, excluded and unused
+  const handleTagClick = (tag: string) => {
+    const includeTags = filter.includeTags.filter(t => t !== tag);
+    const excludeTags = filter.excludeTags.filter(t => t !== tag);
+    if (filter.includeTags.includes(tag)) {
+      excludeTags.push(tag);
+    } else if (!filter.excludeTags.includes(tag)) {
+      includeTags.push(tag);
+    }
+    onFilterChange({ ...filter, includeTags, excludeTags });
+  };
+
+  const handleNumberChange = (key: NumberField, value: string) => {
+    const number = Number.parseInt(value, 10);
+    onFilterChange({ ...filter, [key]: Number.isNaN(number) ? undefined : Math.max(0, number) });
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const preset: FilterPreset = {
+      id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+      name,
+      filter,
+    };
+    setPresets([...presets.filter(p => p.name !== name), preset]);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = (id: string) => {
+    setPresets(presets.filter(preset => preset.id !== id));
+  };
+
+  const summary = describeFilter(filter);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="w-[220px] justify-start">
+          <Filter className="w-4 h-4 mr-2 shrink-0" />
+          <span className="truncate">{summary || "All Categories"}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[340px] space-y-4" align="end">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium">Categories</Label>
+            {filter.includeTags.length > 1 && (
+              <Select
+                value={filter.tagMatch}
+                onValueChange={(value) => onFilterChange({ ...filter, tagMatch: value as TagMatch })}
+              >
+                <SelectTrigger className="h-7 w-[110px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Match all</SelectItem>
+                  <SelectItem value="any">Match any</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {tags.map(tag => {
+              const included = filter.includeTags.includes(tag);
+              const excluded = filter.excludeTags.includes(tag);
+              return (
+                <Button
+                  key={tag}
+                  type="button"
+                  size="sm"
+                  variant={included ? "default" : "outline"}
+                  onClick={() => handleTagClick(tag)}
+                  className={`text-xs h-7 ${excluded ? "border-destructive text-destructive line-through" : ""}`}
+                >
+                  {tag}
+                </Button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Click a category to include it, again to exclude it, and once more to clear it.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Mastery</Label>
+          <Select
+            value={filter.mastery}
+            onValueChange={(value) => onFilterChange({ ...filter, mastery: value as MasteryFilter })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any</SelectItem>
+              <SelectItem value="mastered">Mastered</SelectItem>
+              <SelectItem value="not-mastered">Not mastered</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="filter-min-reviews" className="text-xs">Min reviews</Label>
+            <Input
+              id="filter-min-reviews"
+              type="number"
+              min={0}
+              value={filter.minReviews ?? ''}
+              onChange={(e) => handleNumberChange('minReviews', e.target.value)}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-max-reviews" className="text-xs">Max reviews</Label>
+            <Input
+              id="filter-max-reviews"
+              type="number"
+              min={0}
+              value={filter.maxReviews ?? ''}
+              onChange={(e) => handleNumberChange('maxReviews', e.target.value)}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-reviewed-within" className="text-xs">Reviewed in last (days)</Label>
+            <Input
+              id="filter-reviewed-within"
+              type="number"
+              min={0}
+              value={filter.reviewedWithinDays ?? ''}
+              onChange={(e) => handleNumberChange('reviewedWithinDays', e.target.value)}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-not-reviewed-for" className="text-xs">Not reviewed for (days)</Label>
+            <Input
+              id="filter-not-reviewed-for"
+              type="number"
+              min={0}
+              value={filter.notReviewedForDays ?? ''}
+              onChange={(e) => handleNumberChange('notReviewedForDays', e.target.value)}
+              className="h-8"
+            />
+          </div>
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          onClick={() => onFilterChange(EMPTY_FILTER)}
+          disabled={isEmptyFilter(filter)}
+        >
+          <X className="w-4 h-4 mr-2" />
+          Clear Filter
+        </Button>
+
+        <Separator />
+
+        {/* Presets */}
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Presets</Label>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Preset name..."
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+              className="h-8"
+            />
+            <Button size="sm" variant="outline" onClick={handleSavePreset} disabled={!presetName.trim()}>
+              <Save className="w-4 h-4" />
+            </Button>
+          </div>
+          {presets.map(preset => (
+            <div key={preset.id} className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="flex-1 justify-start h-8 min-w-0"
+                onClick={() => onFilterChange(preset.filter)}
+              >
+                <span className="font-medium truncate">{preset.name}</span>
+                <span className="ml-2 text-xs text-muted-foreground truncate">{describeFilter(preset.filter)}</span>
+              </Button>
+              <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => handleDeletePreset(preset.id)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -11,19 +11,50 @@ export function useLocalStorage<T>(key: string, initialValue: T) {
     }
   });
 
+  const save = (valueToStore: T) => writeLocalStorage(key, valueToStore);
+
+  // Updater functions get the latest value, not the one from the last render,
+  // so several updates in a row (or from an old closure) don't overwrite each other
   const setValue = (value: T | ((val: T) => T)) => {
-    try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      window.localStorage.setItem(key, JSON.stringify(valueToStore));
-    } catch (error) {
-      console.error(`Error setting localStorage key "${key}":`, error);
+    if (value instanceof Function) {
+      setStoredValue(prev => {
+        const valueToStore = value(prev);
+        save(valueToStore);
+        return valueToStore;
+      });
+    } else {
+      setStoredValue(value);
+      save(value);
     }
   };
 
   return [storedValue, setValue] as const;
 }
 
+// The stored value outside a component, e.g. for an update that has to reach
+// storage after the component using the key has unmounted
+export function readLocalStorage<T>(key: string, fallback: T): T {
+  try {
+    const item = window.localStorage.getItem(key);
+    return item ? JSON.parse(item) : fallback;
+  } catch (error) {
+    console.error(`Error reading localStorage key "${key}":`, error);
+    return fallback;
+  }
+}
+
+export function writeLocalStorage<T>(key: string, value: T) {
+  try {
+    if (value === undefined) {
+      window.localStorage.removeItem(key);
+    } else {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch (error) {
+    console.error(`Error setting localStorage key "${key}":`, error);
+  }
+}
+
 export function clearLocalStorage(key: string) {
   try {
     window.localStorage.removeItem(key);
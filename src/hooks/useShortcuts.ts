@@ -0,0 +1,34 @@
+import { createContext, useContext, useEffect, useRef } from "react";
+import { ShortcutAction, ShortcutBindings, ShortcutScope } from "@/lib/shortcuts";
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+export interface ShortcutRegistration {
+  scope: ShortcutScope;
+  handlers: React.MutableRefObject<ShortcutHandlers>;
+}
+
+interface ShortcutContextValue {
+  bindings: ShortcutBindings;
+  register: (registration: ShortcutRegistration) => () => void;
+}
+
+// Provided by ShortcutProvider, which owns the keydown listener
+export const ShortcutContext = createContext<ShortcutContextValue | null>(null);
+
+// Bind the handlers to their actions' keys while the component is mounted
+// and `enabled`. Handlers may change on every render; the latest ones run.
+export const useShortcuts = (scope: ShortcutScope, handlers: ShortcutHandlers, enabled: boolean = true) => {
+  const context = useContext(ShortcutContext);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!context || !enabled) return;
+    return context.register({ scope, handlers: handlersRef });
+  }, [context, scope, enabled]);
+};
+
+export const useShortcutBindings = () => {
+  return useContext(ShortcutContext)?.bindings ?? {};
+};
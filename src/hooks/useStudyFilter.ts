@@ -0,0 +1,27 @@
+import { clearLocalStorage, readLocalStorage, useLocalStorage, writeLocalStorage } from "@/hooks/useLocalStorage";
+import { CardFilter, EMPTY_FILTER, STUDY_FILTER_KEY } from "@/lib/cardFilter";
+
+// Study used to keep a single tag choice under this key, 'all' for none
+const LEGACY_TAG_KEY = 'study-selected-tag';
+
+let hasMigrated = false;
+
+// A tag chosen before filters existed becomes the filter, unless one has
+// been saved since, and the old key is dropped. Runs once per page load,
+// before the filter is first read.
+const migrateLegacyTag = () => {
+  if (hasMigrated) return;
+  hasMigrated = true;
+  const tag = readLocalStorage<string | null>(LEGACY_TAG_KEY, null);
+  if (tag === null) return;
+  if (tag !== 'all' && readLocalStorage<CardFilter | null>(STUDY_FILTER_KEY, null) === null) {
+    writeLocalStorage<CardFilter>(STUDY_FILTER_KEY, { ...EMPTY_FILTER, includeTags: [tag] });
+  }
+  clearLocalStorage(LEGACY_TAG_KEY);
+};
+
+// The filter Study picks cards with, shared with the queue counts on Home
+export function useStudyFilter() {
+  migrateLegacyTag();
+  return useLocalStorage<CardFilter>(STUDY_FILTER_KEY, EMPTY_FILTER);
+}
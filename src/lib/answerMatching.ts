@@ -0,0 +1,129 @@
+import { Grade } from "@/lib/flashcard";
+
+// Fuzzy comparison of a typed answer against the card's answer, used by the
+// type-the-answer study mode.
+
+export interface DiffSegment {
+  type: 'equal' | 'missing' | 'extra';
+  text: string;
+}
+
+export interface AnswerComparison {
+  similarity: number; // 0 (nothing in common) to 1 (identical once normalised)
+  distance: number;
+  isMatch: boolean;
+  suggestedGrade: Grade;
+  diff: DiffSegment[];
+}
+
+const stripDiacritics = (text: string) => {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+};
+
+// Ignore case, accents, punctuation and extra whitespace
+export const normalizeAnswer = (text: string) => {
+  return stripDiacritics(text)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Edit distance that also counts swapped neighbouring letters as one typo
+// (optimal string alignment variant of Levenshtein)
+export const levenshtein = (a: string, b: string) => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  const d = Array.from({ length: a.length + 1 }, (_, i) => {
+    const row = new Array<number>(b.length + 1).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// Typos allowed before an answer stops counting as correct
+const allowedTypos = (expected: string) => Math.max(1, Math.floor(expected.length * 0.15));
+
+const sameChar = (a: string, b: string) => {
+  return stripDiacritics(a).toLowerCase() === stripDiacritics(b).toLowerCase();
+};
+
+// Character-level diff from the longest common subsequence of both strings
+export const diffCharacters = (typed: string, expected: string): DiffSegment[] => {
+  const rows = typed.length;
+  const cols = expected.length;
+  const lcs = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = sameChar(typed[i], expected[j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (sameChar(typed[i], expected[j])) {
+      push('equal', expected[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('extra', typed[i++]);
+    } else {
+      push('missing', expected[j++]);
+    }
+  }
+  if (i < rows) push('extra', typed.slice(i));
+  if (j < cols) push('missing', expected.slice(j));
+
+  return segments;
+};
+
+export const compareAnswers = (typed: string, expected: string): AnswerComparison => {
+  const normalizedTyped = normalizeAnswer(typed);
+  const normalizedExpected = normalizeAnswer(expected);
+  const distance = levenshtein(normalizedTyped, normalizedExpected);
+  const longest = Math.max(normalizedTyped.length, normalizedExpected.length);
+  const similarity = longest > 0 ? 1 - distance / longest : 1;
+
+  let suggestedGrade: Grade = 'again';
+  if (distance === 0) {
+    suggestedGrade = 'good';
+  } else if (distance <= allowedTypos(normalizedExpected)) {
+    suggestedGrade = 'hard';
+  }
+
+  return {
+    similarity,
+    distance,
+    isMatch: suggestedGrade !== 'again',
+    suggestedGrade,
+    diff: diffCharacters(typed.trim(), expected.trim()),
+  };
+};
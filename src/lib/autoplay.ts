@@ -0,0 +1,59 @@
+import { StudyDirection } from "@/lib/flashcard";
+import { StudyItem } from "@/lib/studyItems";
+
+// Autoplay shows each card's question, then its answer, and moves on by
+// itself. Nothing is graded: every card shown is recorded in the exposure
+// log, and its scheduling and review log are left untouched.
+
+export const EXPOSURE_LOG_KEY = 'flashmaster-exposure-log';
+
+export interface AutoplaySettings {
+  questionSeconds: number;
+  answerSeconds: number;
+  speak: boolean; // read both sides aloud
+}
+
+export const DEFAULT_AUTOPLAY_SETTINGS: AutoplaySettings = {
+  questionSeconds: 5,
+  answerSeconds: 5,
+  speak: false,
+};
+
+export const MIN_AUTOPLAY_SECONDS = 1;
+export const MAX_AUTOPLAY_SECONDS = 60;
+
+export interface ExposureLogEntry {
+  cardId: string;
+  timestamp: number;
+  direction?: StudyDirection; // omitted for the forward direction
+  cloze?: number;
+}
+
+export const createExposureLogEntry = (item: StudyItem, timestamp: number = Date.now()): ExposureLogEntry => ({
+  cardId: item.cardId,
+  timestamp,
+  ...(item.direction === 'reverse' && { direction: item.direction }),
+  ...(item.cloze && { cloze: item.cloze.number }),
+});
+
+export const isSpeechAvailable = () => {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+};
+
+// Read the text aloud, cutting off anything still being read. Calls onEnd
+// once reading has finished, or straight away when speech is unavailable.
+export const speak = (text: string, onEnd: () => void) => {
+  if (!isSpeechAvailable() || !text.trim()) {
+    onEnd();
+    return;
+  }
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.onend = onEnd;
+  utterance.onerror = onEnd;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+};
+
+export const stopSpeaking = () => {
+  if (isSpeechAvailable()) window.speechSynthesis.cancel();
+};
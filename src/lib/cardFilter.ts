@@ -0,0 +1,81 @@
+import { DAY_MS, Flashcard } from "@/lib/flashcard";
+
+// Boolean card filters for choosing what to study, e.g.
+// "javascript AND async NOT deprecated", which can be saved as named presets.
+
+export const STUDY_FILTER_KEY = 'study-filter';
+export const FILTER_PRESETS_KEY = 'flashmaster-filter-presets';
+
+export type TagMatch = 'all' | 'any';
+export type MasteryFilter = 'any' | 'mastered' | 'not-mastered';
+
+export interface CardFilter {
+  includeTags: string[];
+  tagMatch: TagMatch; // AND or OR across includeTags
+  excludeTags: string[];
+  mastery: MasteryFilter;
+  minReviews?: number;
+  maxReviews?: number;
+  reviewedWithinDays?: number; // last reviewed at most this many days ago
+  notReviewedForDays?: number; // last reviewed at least this many days ago, or never
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filter: CardFilter;
+}
+
+export const EMPTY_FILTER: CardFilter = {
+  includeTags: [],
+  tagMatch: 'all',
+  excludeTags: [],
+  mastery: 'any',
+};
+
+export const isEmptyFilter = (filter: CardFilter) => {
+  return describeFilter(filter) === '';
+};
+
+const daysSince = (date: Date | undefined, now: Date) => {
+  return date ? (now.getTime() - new Date(date).getTime()) / DAY_MS : Infinity;
+};
+
+export const matchesFilter = (card: Flashcard, filter: CardFilter, now: Date = new Date()) => {
+  const { includeTags, excludeTags } = filter;
+  if (includeTags.length > 0) {
+    const matches = filter.tagMatch === 'any'
+      ? includeTags.some(tag => card.tags.includes(tag))
+      : includeTags.every(tag => card.tags.includes(tag));
+    if (!matches) return false;
+  }
+  if (excludeTags.some(tag => card.tags.includes(tag))) return false;
+
+  if (filter.mastery === 'mastered' && !card.mastered) return false;
+  if (filter.mastery === 'not-mastered' && card.mastered) return false;
+
+  if (filter.minReviews !== undefined && card.reviewCount < filter.minReviews) return false;
+  if (filter.maxReviews !== undefined && card.reviewCount > filter.maxReviews) return false;
+
+  const sinceReview = daysSince(card.lastReviewed, now);
+  if (filter.reviewedWithinDays !== undefined && sinceReview > filter.reviewedWithinDays) return false;
+  if (filter.notReviewedForDays !== undefined && sinceReview < filter.notReviewedForDays) return false;
+
+  return true;
+};
+
+// Readable summary, e.g. "javascript AND async NOT deprecated • not mastered"
+export const describeFilter = (filter: CardFilter) => {
+  const tagParts = [filter.includeTags.join(filter.tagMatch === 'any' ? ' OR ' : ' AND ')];
+  filter.excludeTags.forEach(tag => tagParts.push(`NOT ${tag}`));
+
+  const parts = [tagParts.filter(Boolean).join(' ')];
+  if (filter.mastery === 'mastered') parts.push("mastered");
+  if (filter.mastery === 'not-mastered') parts.push("not mastered");
+  if (filter.minReviews !== undefined) parts.push(`≥ ${filter.minReviews} reviews`);
+  if (filter.maxReviews !== undefined) parts.push(`≤ ${filter.maxReviews} reviews`);
+  if (filter.reviewedWithinDays !== undefined) parts.push(`reviewed in last ${filter.reviewedWithinDays}d`);
+  if (filter.notReviewedForDays !== undefined) parts.push(`not reviewed for ${filter.notReviewedForDays}d`);
+
+  return parts.filter(Boolean).join(' • ');
+};
@@ -0,0 +1,71 @@
+// Cloze deletions mark hidden terms inline: {{c1::term}} or {{c2::term::hint}}.
+// Every cloze number becomes its own study item.
+
+const CLOZE_PATTERN = /\{\{c(\d+)::(.*?)(?:::(.*?))?\}\}/g;
+
+export interface ClozeSegment {
+  text: string;
+  cloze?: {
+    number: number;
+    hint?: string;
+  };
+}
+
+export const parseCloze = (text: string): ClozeSegment[] => {
+  const segments: ClozeSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({
+      text: match[2],
+      cloze: { number: Number(match[1]), hint: match[3] || undefined },
+    });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex) });
+  }
+
+  return segments;
+};
+
+// Distinct cloze numbers in ascending order
+export const getClozeNumbers = (text: string) => {
+  const numbers = parseCloze(text)
+    .filter(segment => segment.cloze)
+    .map(segment => segment.cloze.number);
+  return Array.from(new Set(numbers)).sort((a, b) => a - b);
+};
+
+export const hasCloze = (text: string) => getClozeNumbers(text).length > 0;
+
+export const nextClozeNumber = (text: string) => {
+  const numbers = getClozeNumbers(text);
+  return numbers.length > 0 ? numbers[numbers.length - 1] + 1 : 1;
+};
+
+// Plain text with the given cloze hidden and all others shown
+export const maskCloze = (text: string, number: number) => {
+  return parseCloze(text)
+    .map(segment => {
+      if (segment.cloze?.number !== number) return segment.text;
+      return `[${segment.cloze.hint ?? '...'}]`;
+    })
+    .join('');
+};
+
+// The hidden terms of a cloze, which is what the learner has to recall
+export const getClozeAnswer = (text: string, number: number) => {
+  return parseCloze(text)
+    .filter(segment => segment.cloze?.number === number)
+    .map(segment => segment.text)
+    .join(', ');
+};
+
+export const wrapAsCloze = (text: string, start: number, end: number, number: number) => {
+  const selection = text.slice(start, end);
+  return `${text.slice(0, start)}{{c${number}::${selection}}}${text.slice(end)}`;
+};
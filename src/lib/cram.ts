@@ -0,0 +1,34 @@
+import { StudyDirection } from "@/lib/flashcard";
+import { StudyItem } from "@/lib/studyItems";
+
+// Cram sessions drill a set of cards until each has been answered correctly.
+// They never change a card's scheduling or review stats; answers only go to
+// the cram log, kept apart from the review log the schedulers learn from.
+
+export const CRAM_LOG_KEY = 'flashmaster-cram-log';
+
+export interface CramLogEntry {
+  cardId: string;
+  timestamp: number;
+  correct: boolean;
+  direction?: StudyDirection; // omitted for the forward direction
+  cloze?: number;
+}
+
+export const createCramLogEntry = (
+  item: StudyItem,
+  correct: boolean,
+  timestamp: number = Date.now()
+): CramLogEntry => ({
+  cardId: item.cardId,
+  timestamp,
+  correct,
+  ...(item.direction === 'reverse' && { direction: item.direction }),
+  ...(item.cloze && { cloze: item.cloze.number }),
+});
+
+// Ids still to be asked: missed cards go back to the end of the queue
+export const advanceCramQueue = (queue: string[], correct: boolean) => {
+  const [current, ...rest] = queue;
+  return correct ? rest : [...rest, current];
+};
@@ -0,0 +1,119 @@
+import { compareAnswers } from "@/lib/answerMatching";
+import { shuffleWithSeed } from "@/lib/ordering";
+import { StudyItem } from "@/lib/studyItems";
+
+// Timed exams: a fixed set of cards answered against a countdown, with the
+// answers only revealed in the final report. Exams never change scheduling.
+
+export const EXAM_ATTEMPTS_KEY = 'flashmaster-exam-attempts';
+
+export interface ExamConfig {
+  tags: string[]; // empty means every category
+  questionCount: number;
+  durationMinutes: number;
+  questionTimeLimitSeconds?: number;
+}
+
+export interface ExamAnswer {
+  itemId: string;
+  cardId: string;
+  question: string;
+  expected: string;
+  tags: string[];
+  typed: string;
+  correct: boolean;
+  timeMs: number;
+  timedOut: boolean;
+}
+
+export interface ExamAttempt {
+  id: string;
+  config: ExamConfig;
+  startedAt: number;
+  finishedAt: number;
+  answers: ExamAnswer[];
+}
+
+export interface TagBreakdown {
+  tag: string;
+  correct: number;
+  total: number;
+}
+
+export interface ExamReport {
+  score: number; // 0–100
+  correctCount: number;
+  total: number;
+  durationMs: number;
+  averageTimeMs: number;
+  byTag: TagBreakdown[];
+  missed: ExamAnswer[];
+}
+
+export const DEFAULT_EXAM_CONFIG: ExamConfig = {
+  tags: [],
+  questionCount: 20,
+  durationMinutes: 15,
+};
+
+export const filterExamItems = (items: StudyItem[], tags: string[]) => {
+  if (tags.length === 0) return items;
+  return items.filter(item => item.tags.some(tag => tags.includes(tag)));
+};
+
+export const pickExamItems = (items: StudyItem[], config: ExamConfig, seed: number) => {
+  return shuffleWithSeed(filterExamItems(items, config.tags), seed).slice(0, config.questionCount);
+};
+
+// Unanswered questions (time ran out) count as wrong with an empty answer
+export const createExamAnswer = (
+  item: StudyItem,
+  typed: string,
+  timeMs: number,
+  timedOut = false
+): ExamAnswer => ({
+  itemId: item.id,
+  cardId: item.cardId,
+  question: item.question,
+  expected: item.answer,
+  tags: item.tags,
+  typed,
+  correct: typed.trim() !== '' && compareAnswers(typed, item.answer).isMatch,
+  timeMs,
+  timedOut,
+});
+
+export const buildExamReport = (attempt: ExamAttempt): ExamReport => {
+  const { answers } = attempt;
+  const correctCount = answers.filter(answer => answer.correct).length;
+  const answeredTime = answers.reduce((sum, answer) => sum + answer.timeMs, 0);
+
+  const tagTotals = new Map<string, TagBreakdown>();
+  answers.forEach(answer => {
+    const tags = answer.tags.length > 0 ? answer.tags : ['Uncategorised'];
+    tags.forEach(tag => {
+      const entry = tagTotals.get(tag) ?? { tag, correct: 0, total: 0 };
+      entry.total++;
+      if (answer.correct) entry.correct++;
+      tagTotals.set(tag, entry);
+    });
+  });
+
+  return {
+    score: answers.length > 0 ? (correctCount / answers.length) * 100 : 0,
+    correctCount,
+    total: answers.length,
+    durationMs: attempt.finishedAt - attempt.startedAt,
+    averageTimeMs: answers.length > 0 ? answeredTime / answers.length : 0,
+    byTag: Array.from(tagTotals.values()).sort((a, b) => a.tag.localeCompare(b.tag)),
+    missed: answers.filter(answer => !answer.correct),
+  };
+};
+
+// e.g. "4:05"
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
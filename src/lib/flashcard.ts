@@ -0,0 +1,143 @@
+// Shared flashcard model used across views and the scheduler modules.
+
+export type Grade = 'again' | 'hard' | 'good' | 'easy';
+
+export const GRADES: Grade[] = ['again', 'hard', 'good', 'easy'];
+
+export interface SchedulingState {
+  easeFactor: number;
+  interval: number; // days until the next review
+  repetitions: number; // consecutive successful reviews
+  dueDate?: Date; // undefined while the card has never been studied
+  stability?: number; // FSRS memory stability in days
+  difficulty?: number; // FSRS difficulty between 1 and 10
+  box?: number; // Leitner box, starting at 1
+}
+
+// Which way round a card is studied; "both" yields two study items
+export type CardDirection = 'forward' | 'reverse' | 'both';
+export type StudyDirection = 'forward' | 'reverse';
+
+export type CardType = 'basic' | 'cloze';
+
+// Scheduling and review stats of a study item other than the forward
+// direction of a basic card (its reverse, or a single cloze)
+export interface StudyItemState extends SchedulingState {
+  mastered: boolean;
+  reviewCount: number;
+  lastReviewed?: Date;
+  lapses?: number;
+}
+
+export interface Flashcard extends SchedulingState {
+  id: string;
+  question: string;
+  answer: string;
+  tags: string[];
+  mastered: boolean;
+  reviewCount: number;
+  lastReviewed?: Date;
+  lapses?: number; // times the card was forgotten after being learned
+  suspended?: boolean; // suspended cards are left out of study
+  buriedDay?: string; // day key the card is hidden for, see getDayKey
+  type?: CardType; // undefined for basic question/answer cards
+  direction?: CardDirection; // undefined follows the tag default
+  reverse?: StudyItemState;
+  clozes?: Record<number, StudyItemState>; // keyed by cloze number
+}
+
+export type NewFlashcard = Omit<Flashcard, 'id' | keyof SchedulingState>;
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+
+// A card counts as mastered once its interval reaches this many days
+export const MASTERED_INTERVAL_DAYS = 21;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const addDays = (date: Date, days: number) => {
+  return new Date(date.getTime() + days * DAY_MS);
+};
+
+export const createSchedulingState = (): SchedulingState => ({
+  easeFactor: DEFAULT_EASE_FACTOR,
+  interval: 0,
+  repetitions: 0,
+  dueDate: undefined,
+});
+
+// Reverse and cloze study items get their own id so they are queued and
+// logged separately from the forward direction
+export const getStudyItemId = (
+  cardId: string,
+  direction: StudyDirection = 'forward',
+  cloze?: number
+) => {
+  if (cloze !== undefined) return `${cardId}:c${cloze}`;
+  return direction === 'reverse' ? `${cardId}:reverse` : cardId;
+};
+
+export const isNewCard = (card: Flashcard) => !card.dueDate;
+
+export const isDue = (card: Flashcard, now: Date = new Date()) => {
+  return !card.dueDate || new Date(card.dueDate).getTime() <= now.getTime();
+};
+
+// Human readable interval, e.g. "10m", "3d", "2mo"
+export const formatInterval = (days: number) => {
+  if (days < 1) {
+    return `${Math.max(1, Math.round(days * 24 * 60))}m`;
+  }
+  if (days < 30) {
+    return `${Math.round(days)}d`;
+  }
+  if (days < 365) {
+    return `${Math.round(days / 30)}mo`;
+  }
+  return `${(days / 365).toFixed(1)}y`;
+};
+
+const parseItemStateDates = (state: StudyItemState): StudyItemState => ({
+  ...state,
+  lastReviewed: state.lastReviewed ? new Date(state.lastReviewed) : undefined,
+  dueDate: state.dueDate ? new Date(state.dueDate) : undefined,
+});
+
+// Cards stored in localStorage come back with string dates and, for data
+// written before scheduling existed, without any scheduling fields.
+export const migrateFlashcard = (card: Flashcard): Flashcard => {
+  const lastReviewed = card.lastReviewed ? new Date(card.lastReviewed) : undefined;
+
+  if (typeof card.easeFactor === 'number') {
+    return {
+      ...card,
+      lastReviewed,
+      dueDate: card.dueDate ? new Date(card.dueDate) : undefined,
+      reverse: card.reverse && parseItemStateDates(card.reverse),
+      clozes: card.clozes && Object.fromEntries(
+        Object.entries(card.clozes).map(([number, state]) => [number, parseItemStateDates(state)])
+      ),
+    };
+  }
+
+  if (card.mastered) {
+    // Previously mastered cards start with a long interval instead of
+    // flooding the first due queue
+    return {
+      ...card,
+      lastReviewed,
+      easeFactor: DEFAULT_EASE_FACTOR,
+      interval: MASTERED_INTERVAL_DAYS,
+      repetitions: 3,
+      dueDate: addDays(lastReviewed ?? new Date(), MASTERED_INTERVAL_DAYS),
+    };
+  }
+
+  return {
+    ...card,
+    lastReviewed,
+    ...createSchedulingState(),
+    // Cards that were already studied are due right away
+    dueDate: card.reviewCount > 0 ? lastReviewed ?? new Date() : undefined,
+  };
+};
@@ -0,0 +1,118 @@
+import { Flashcard, isDue, isNewCard } from "@/lib/flashcard";
+import { getDayKey, nextDayKey } from "@/lib/session";
+
+// Upcoming review workload from each card's next due date. Overdue cards
+// count for today; cards that have never been studied have no due date and
+// are left out. Per tag, a card counts under every tag it has, so the tag
+// counts of a day can add up to more than its total.
+
+export const FORECAST_RANGES = [30, 90];
+export const MAX_FORECAST_TAGS = 5; // cards with none of the busiest tags are "Other"
+
+export const UNTAGGED_LABEL = "Untagged";
+export const OTHER_TAGS_LABEL = "Other";
+
+// One day of the chart. Counts are stored under series keys ("series0",
+// ...) because tag names may contain characters recharts reads as paths.
+export interface ForecastDay {
+  day: string; // day key
+  label: string; // e.g. "Oct 19"
+  total: number; // each card once
+  [seriesKey: string]: string | number;
+}
+
+export interface ForecastSeries {
+  key: string;
+  label: string; // tag name, "Untagged" or "Other"
+  total: number;
+}
+
+export interface Forecast {
+  days: ForecastDay[];
+  series: ForecastSeries[];
+  total: number;
+}
+
+const getForecastTags = (card: Flashcard) => card.tags.length > 0 ? card.tags : [UNTAGGED_LABEL];
+
+export const buildForecast = (
+  cards: Flashcard[],
+  dayCount: number,
+  dayStartHour = 0,
+  now: Date = new Date()
+): Forecast => {
+  const dayKeys = [getDayKey(now, dayStartHour)];
+  while (dayKeys.length < dayCount) {
+    dayKeys.push(nextDayKey(dayKeys[dayKeys.length - 1]));
+  }
+  const lastDay = dayKeys[dayKeys.length - 1];
+
+  // Due cards per day, and how many cards of each tag are due in the range
+  const dueByDay = new Map<string, Flashcard[]>();
+  const tagTotals = new Map<string, number>();
+  cards.forEach(card => {
+    if (isNewCard(card)) return;
+    const day = isDue(card, now) ? dayKeys[0] : getDayKey(new Date(card.dueDate), dayStartHour);
+    if (day > lastDay) return;
+    const dueCards = dueByDay.get(day) ?? [];
+    dueCards.push(card);
+    dueByDay.set(day, dueCards);
+    getForecastTags(card).forEach(tag => tagTotals.set(tag, (tagTotals.get(tag) ?? 0) + 1));
+  });
+
+  // The busiest tags get their own series
+  const rankedTags = Array.from(tagTotals.entries()).sort(([, a], [, b]) => b - a);
+  const ownSeries = rankedTags.length > MAX_FORECAST_TAGS
+    ? rankedTags.slice(0, MAX_FORECAST_TAGS - 1)
+    : rankedTags;
+  const series: ForecastSeries[] = ownSeries.map(([tag, total], index) => ({
+    key: `series${index}`,
+    label: tag,
+    total,
+  }));
+  const keyByTag = new Map(series.map(s => [s.label, s.key]));
+  const otherSeries: ForecastSeries | undefined = ownSeries.length < rankedTags.length
+    ? { key: `series${ownSeries.length}`, label: OTHER_TAGS_LABEL, total: 0 }
+    : undefined;
+  if (otherSeries) series.push(otherSeries);
+
+  const days = dayKeys.map(day => {
+    const [year, month, date] = day.split('-').map(Number);
+    const dueCards = dueByDay.get(day) ?? [];
+    const forecastDay: ForecastDay = {
+      day,
+      label: new Date(year, month - 1, date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      total: dueCards.length,
+    };
+    series.forEach(s => { forecastDay[s.key] = 0; });
+    dueCards.forEach(card => {
+      const keys = getForecastTags(card).map(tag => keyByTag.get(tag)).filter(Boolean);
+      if (keys.length === 0 && otherSeries) {
+        keys.push(otherSeries.key);
+        otherSeries.total += 1;
+      }
+      keys.forEach(key => { forecastDay[key] = (forecastDay[key] as number) + 1; });
+    });
+    return forecastDay;
+  });
+
+  return {
+    days,
+    series,
+    total: days.reduce((sum, day) => sum + day.total, 0),
+  };
+};
+
+// Cards that aren't due yet but will be by the end of tomorrow, to study
+// ahead when there is spare time
+export const getReviewAheadCards = <T extends Flashcard>(
+  cards: T[],
+  dayStartHour = 0,
+  now: Date = new Date()
+) => {
+  const tomorrow = nextDayKey(getDayKey(now, dayStartHour));
+  return cards.filter(card => {
+    if (isNewCard(card) || isDue(card, now)) return false;
+    return getDayKey(new Date(card.dueDate), dayStartHour) <= tomorrow;
+  });
+};
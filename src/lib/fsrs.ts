@@ -0,0 +1,167 @@
+import {
+  addDays,
+  DAY_MS,
+  Flashcard,
+  Grade,
+  MASTERED_INTERVAL_DAYS,
+  SchedulingState,
+} from "@/lib/flashcard";
+
+// Free Spaced Repetition Scheduler (FSRS v4.5)
+
+export const DEFAULT_FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+// Allowed range of every weight, used to keep the optimiser in a sane region
+export const FSRS_WEIGHT_BOUNDS: [number, number][] = [
+  [0.1, 100], [0.1, 100], [0.1, 100], [0.1, 100],
+  [1, 10], [0.1, 4], [0.1, 4], [0, 0.75], [0, 4.5],
+  [0, 0.8], [0.01, 3.5], [0.1, 5], [0.01, 0.25], [0.01, 0.9],
+  [0, 4], [0, 1], [1, 6],
+];
+
+export const DEFAULT_REQUEST_RETENTION = 0.9;
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+const MAX_INTERVAL_DAYS = 36500;
+
+export const GRADE_RATING: Record<Grade, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4,
+};
+
+export interface FsrsParameters {
+  weights: number[];
+  requestRetention: number;
+}
+
+export interface MemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+const clamp = (value: number, min: number, max: number) => {
+  return Math.min(max, Math.max(min, value));
+};
+
+// Probability of recalling a card after `elapsedDays` with the given stability
+export const retrievability = (elapsedDays: number, stability: number) => {
+  return Math.pow(1 + (FACTOR * Math.max(0, elapsedDays)) / stability, DECAY);
+};
+
+export const nextFsrsInterval = (stability: number, requestRetention: number) => {
+  const interval = (stability / FACTOR) * (Math.pow(requestRetention, 1 / DECAY) - 1);
+  return clamp(Math.round(interval), 1, MAX_INTERVAL_DAYS);
+};
+
+const initStability = (rating: number, w: number[]) => Math.max(w[rating - 1], 0.1);
+
+const initDifficulty = (rating: number, w: number[]) => {
+  return clamp(w[4] - (rating - 3) * w[5], 1, 10);
+};
+
+const nextDifficulty = (difficulty: number, rating: number, w: number[]) => {
+  const updated = difficulty - w[6] * (rating - 3);
+  // Mean reversion towards the difficulty of a "good" first answer
+  return clamp(w[7] * initDifficulty(3, w) + (1 - w[7]) * updated, 1, 10);
+};
+
+const recallStability = (
+  state: MemoryState,
+  recall: number,
+  rating: number,
+  w: number[]
+) => {
+  const hardPenalty = rating === 2 ? w[15] : 1;
+  const easyBonus = rating === 4 ? w[16] : 1;
+  return state.stability * (
+    1 +
+    Math.exp(w[8]) *
+      (11 - state.difficulty) *
+      Math.pow(state.stability, -w[9]) *
+      (Math.exp((1 - recall) * w[10]) - 1) *
+      hardPenalty *
+      easyBonus
+  );
+};
+
+const forgetStability = (state: MemoryState, recall: number, w: number[]) => {
+  const stability =
+    w[11] *
+    Math.pow(state.difficulty, -w[12]) *
+    (Math.pow(state.stability + 1, w[13]) - 1) *
+    Math.exp((1 - recall) * w[14]);
+  return Math.min(stability, state.stability);
+};
+
+// Advance a memory state by one review. `state` is undefined for the first
+// review of a card.
+export const nextMemoryState = (
+  state: MemoryState | undefined,
+  rating: number,
+  elapsedDays: number,
+  w: number[]
+): MemoryState => {
+  if (!state) {
+    return {
+      stability: initStability(rating, w),
+      difficulty: initDifficulty(rating, w),
+    };
+  }
+
+  const recall = retrievability(elapsedDays, state.stability);
+  return {
+    stability: Math.max(
+      0.1,
+      rating === 1
+        ? forgetStability(state, recall, w)
+        : recallStability(state, recall, rating, w)
+    ),
+    difficulty: nextDifficulty(state.difficulty, rating, w),
+  };
+};
+
+// Cards scheduled with SM-2 before switching to FSRS have no memory state
+// yet; approximate one from their current interval.
+const currentMemoryState = (card: Flashcard): MemoryState | undefined => {
+  if (typeof card.stability === 'number' && typeof card.difficulty === 'number') {
+    return { stability: card.stability, difficulty: card.difficulty };
+  }
+  if (!card.dueDate || !card.lastReviewed) {
+    return undefined;
+  }
+  return {
+    stability: Math.max(card.interval, 0.5),
+    difficulty: clamp(11 - (card.easeFactor - 1.3) * 5, 1, 10),
+  };
+};
+
+// Compute the next scheduling state for a card using FSRS
+export const scheduleFsrs = (
+  card: Flashcard,
+  grade: Grade,
+  params: FsrsParameters,
+  now: Date = new Date()
+): SchedulingState & { mastered: boolean } => {
+  const rating = GRADE_RATING[grade];
+  const elapsedDays = card.lastReviewed
+    ? (now.getTime() - new Date(card.lastReviewed).getTime()) / DAY_MS
+    : 0;
+  const state = nextMemoryState(currentMemoryState(card), rating, elapsedDays, params.weights);
+  const interval = nextFsrsInterval(state.stability, params.requestRetention);
+
+  return {
+    easeFactor: card.easeFactor,
+    interval,
+    repetitions: rating === 1 ? 0 : card.repetitions + 1,
+    dueDate: addDays(now, interval),
+    stability: Number(state.stability.toFixed(4)),
+    difficulty: Number(state.difficulty.toFixed(4)),
+    mastered: interval >= MASTERED_INTERVAL_DAYS,
+  };
+};
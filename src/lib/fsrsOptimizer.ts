@@ -0,0 +1,140 @@
+import { DAY_MS } from "@/lib/flashcard";
+import {
+  FSRS_WEIGHT_BOUNDS,
+  GRADE_RATING,
+  MemoryState,
+  nextMemoryState,
+  retrievability,
+} from "@/lib/fsrs";
+import { groupReviewsByCard, ReviewLogEntry } from "@/lib/reviewLog";
+
+// Fits FSRS weights to the recorded review history by minimising the log
+// loss of predicted recall, using Adam with numerical gradients.
+
+export const MIN_REVIEWS_FOR_OPTIMIZATION = 50;
+
+interface TrainingSample {
+  rating: number;
+  elapsedDays: number;
+}
+
+export interface OptimizationResult {
+  weights: number[];
+  loss: number;
+  reviewCount: number;
+}
+
+interface OptimizeOptions {
+  iterations?: number;
+  learningRate?: number;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal; // stops the run between steps
+}
+
+// Reviews on the same day as the previous one carry no long-term signal
+const MIN_ELAPSED_DAYS = 0.5;
+
+const buildSamples = (log: ReviewLogEntry[]) => {
+  const sequences: TrainingSample[][] = [];
+  groupReviewsByCard(log).forEach(reviews => {
+    const samples: TrainingSample[] = [];
+    let previous: number | undefined;
+    reviews.forEach(review => {
+      const elapsedDays = previous === undefined ? 0 : (review.timestamp - previous) / DAY_MS;
+      if (previous !== undefined && elapsedDays < MIN_ELAPSED_DAYS) return;
+      samples.push({ rating: GRADE_RATING[review.grade], elapsedDays });
+      previous = review.timestamp;
+    });
+    if (samples.length > 1) {
+      sequences.push(samples);
+    }
+  });
+  return sequences;
+};
+
+// Number of reviews that can be used to evaluate a prediction
+export const countTrainableReviews = (log: ReviewLogEntry[]) => {
+  return buildSamples(log).reduce((sum, samples) => sum + samples.length - 1, 0);
+};
+
+const EPSILON = 1e-6;
+
+const evaluateLoss = (sequences: TrainingSample[][], weights: number[]) => {
+  let loss = 0;
+  let count = 0;
+  sequences.forEach(samples => {
+    let state: MemoryState | undefined;
+    samples.forEach(sample => {
+      if (state) {
+        const recall = Math.min(1 - EPSILON, Math.max(EPSILON, retrievability(sample.elapsedDays, state.stability)));
+        const recalled = sample.rating > 1;
+        loss -= recalled ? Math.log(recall) : Math.log(1 - recall);
+        count++;
+      }
+      state = nextMemoryState(state, sample.rating, sample.elapsedDays, weights);
+    });
+  });
+  return count > 0 ? loss / count : 0;
+};
+
+const clampWeights = (weights: number[]) => {
+  return weights.map((weight, i) => {
+    const [min, max] = FSRS_WEIGHT_BOUNDS[i];
+    return Math.min(max, Math.max(min, weight));
+  });
+};
+
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export const optimizeFsrsWeights = async (
+  log: ReviewLogEntry[],
+  initialWeights: number[],
+  { iterations = 150, learningRate = 0.04, onProgress, signal }: OptimizeOptions = {}
+): Promise<OptimizationResult> => {
+  const sequences = buildSamples(log);
+  const reviewCount = sequences.reduce((sum, samples) => sum + samples.length - 1, 0);
+  let weights = clampWeights(initialWeights);
+  let bestWeights = weights;
+  let bestLoss = evaluateLoss(sequences, weights);
+
+  const firstMoment = weights.map(() => 0);
+  const secondMoment = weights.map(() => 0);
+  const beta1 = 0.9;
+  const beta2 = 0.999;
+
+  for (let step = 1; step <= iterations; step++) {
+    const gradient = weights.map((weight, i) => {
+      const delta = 1e-4 * Math.max(1, Math.abs(weight));
+      const up = [...weights];
+      const down = [...weights];
+      up[i] += delta;
+      down[i] -= delta;
+      return (evaluateLoss(sequences, up) - evaluateLoss(sequences, down)) / (2 * delta);
+    });
+
+    weights = clampWeights(weights.map((weight, i) => {
+      firstMoment[i] = beta1 * firstMoment[i] + (1 - beta1) * gradient[i];
+      secondMoment[i] = beta2 * secondMoment[i] + (1 - beta2) * gradient[i] * gradient[i];
+      const mHat = firstMoment[i] / (1 - Math.pow(beta1, step));
+      const vHat = secondMoment[i] / (1 - Math.pow(beta2, step));
+      return weight - (learningRate * mHat) / (Math.sqrt(vHat) + 1e-8);
+    }));
+
+    const loss = evaluateLoss(sequences, weights);
+    if (loss < bestLoss) {
+      bestLoss = loss;
+      bestWeights = weights;
+    }
+
+    onProgress?.(step / iterations);
+    // Give the browser a chance to repaint between steps
+    await nextTick();
+    if (signal?.aborted) throw new Error('Optimisation cancelled');
+  }
+
+  return {
+    weights: bestWeights.map(weight => Number(weight.toFixed(4))),
+    loss: bestLoss,
+    reviewCount,
+  };
+};
@@ -0,0 +1,40 @@
+import { Flashcard, Grade } from "@/lib/flashcard";
+
+// Leeches are cards that keep being forgotten. Once a card has lapsed often
+// enough it is tagged, and optionally suspended, so it can be rewritten.
+
+export const LEECH_TAG = 'leech';
+
+export const DEFAULT_LEECH_THRESHOLD = 8;
+
+export interface LeechSettings {
+  threshold: number; // lapses before a card counts as a leech
+  suspend: boolean; // suspend leeches as well as tagging them
+}
+
+// A lapse is forgetting a card that had already been learned
+export const isLapse = (card: Flashcard, grade: Grade) => {
+  return grade === 'again' && card.repetitions > 0;
+};
+
+export const isLeech = (card: Flashcard) => card.tags.includes(LEECH_TAG);
+
+// Tag (and optionally suspend) a card whose lapses reached the threshold.
+// Returns the card unchanged if it is not a new leech.
+export const markLeech = (card: Flashcard, lapses: number, settings: LeechSettings) => {
+  if (lapses < settings.threshold || isLeech(card)) {
+    return card;
+  }
+  return {
+    ...card,
+    tags: [...card.tags, LEECH_TAG],
+    suspended: card.suspended || settings.suspend,
+  };
+};
+
+// Lapses summed over every direction and cloze of a card
+export const getTotalLapses = (card: Flashcard) => {
+  const reverse = card.reverse?.lapses ?? 0;
+  const clozes = Object.values(card.clozes ?? {}).reduce((sum, state) => sum + (state.lapses ?? 0), 0);
+  return (card.lapses ?? 0) + reverse + clozes;
+};
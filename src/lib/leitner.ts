@@ -0,0 +1,59 @@
+import { addDays, Flashcard, Grade, SchedulingState } from "@/lib/flashcard";
+
+// Leitner boxes: a correct answer moves the card up one box, a miss sends it
+// back to box 1. Each box has its own review interval.
+
+export interface LeitnerParameters {
+  boxIntervals: number[]; // days between reviews, one entry per box
+}
+
+export const DEFAULT_LEITNER_BOX_INTERVALS = [1, 2, 4, 8, 16];
+
+export const MIN_LEITNER_BOXES = 2;
+export const MAX_LEITNER_BOXES = 10;
+
+// Box 1 to boxIntervals.length. Cards scheduled by another algorithm go in the
+// highest box whose interval they have already reached.
+export const getLeitnerBox = (card: Flashcard, params: LeitnerParameters) => {
+  const boxCount = params.boxIntervals.length;
+  if (card.box) return Math.min(card.box, boxCount);
+
+  let box = 1;
+  params.boxIntervals.forEach((interval, index) => {
+    if ((card.interval ?? 0) >= interval) box = index + 1;
+  });
+  return box;
+};
+
+export const scheduleLeitner = (
+  card: Flashcard,
+  grade: Grade,
+  params: LeitnerParameters,
+  now: Date = new Date()
+): SchedulingState & { mastered: boolean } => {
+  const boxCount = params.boxIntervals.length;
+  const currentBox = getLeitnerBox(card, params);
+  const box = grade === 'again' ? 1 : Math.min(currentBox + 1, boxCount);
+  const interval = params.boxIntervals[box - 1];
+
+  return {
+    easeFactor: card.easeFactor,
+    interval,
+    repetitions: grade === 'again' ? 0 : (card.repetitions ?? 0) + 1,
+    dueDate: addDays(now, interval),
+    stability: card.stability,
+    difficulty: card.difficulty,
+    box,
+    mastered: box === boxCount,
+  };
+};
+
+// Grow or shrink the box list, doubling the last interval for added boxes
+export const resizeLeitnerBoxes = (boxIntervals: number[], count: number) => {
+  const boxCount = Math.min(MAX_LEITNER_BOXES, Math.max(MIN_LEITNER_BOXES, count));
+  const result = boxIntervals.slice(0, boxCount);
+  while (result.length < boxCount) {
+    result.push((result[result.length - 1] ?? 1) * 2);
+  }
+  return result;
+};
@@ -0,0 +1,84 @@
+import { shuffleWithSeed } from "@/lib/ordering";
+import { StudyItem } from "@/lib/studyItems";
+
+// Matching game: questions and answers of a few cards are dealt face up as
+// tiles, and the player pairs them against the clock. Like cramming, it
+// never touches scheduling; only the best times are kept.
+
+export const MATCH_SCORES_KEY = 'flashmaster-match-scores';
+
+export const MIN_MATCH_PAIRS = 3;
+export const MAX_MATCH_PAIRS = 6;
+export const DEFAULT_MATCH_PAIRS = 6;
+// Best times kept per leaderboard
+export const LEADERBOARD_SIZE = 5;
+
+export interface MatchTile {
+  id: string;
+  itemId: string; // tiles with the same item id form a pair
+  side: 'question' | 'answer';
+  text: string;
+}
+
+export interface MatchScore {
+  id: string;
+  board: string; // the tag filter the game was played with
+  pairs: number;
+  timeMs: number;
+  mismatches: number;
+  playedAt: number;
+}
+
+// One tile pair per card, skipping items whose question or answer text
+// repeats so every tile has exactly one partner
+export const buildMatchTiles = (items: StudyItem[], pairs: number, seed: number): MatchTile[] => {
+  const cardIds = new Set<string>();
+  const texts = new Set<string>();
+  const picked: StudyItem[] = [];
+
+  for (const item of shuffleWithSeed(items, seed)) {
+    if (picked.length >= pairs) break;
+    const question = item.question.trim();
+    const answer = item.answer.trim();
+    if (cardIds.has(item.cardId) || !question || !answer) continue;
+    if (question === answer || texts.has(question) || texts.has(answer)) continue;
+    cardIds.add(item.cardId);
+    texts.add(question);
+    texts.add(answer);
+    picked.push(item);
+  }
+
+  const tiles = picked.flatMap(item => [
+    { id: `${item.id}|question`, itemId: item.id, side: 'question' as const, text: item.question },
+    { id: `${item.id}|answer`, itemId: item.id, side: 'answer' as const, text: item.answer },
+  ]);
+  return shuffleWithSeed(tiles, seed + 1);
+};
+
+// Faster first, then fewer mismatches
+const compareScores = (a: MatchScore, b: MatchScore) => {
+  return a.timeMs - b.timeMs || a.mismatches - b.mismatches;
+};
+
+// Only games with the same filter and number of pairs are comparable
+export const getLeaderboard = (scores: MatchScore[], board: string, pairs: number) => {
+  return scores
+    .filter(score => score.board === board && score.pairs === pairs)
+    .sort(compareScores)
+    .slice(0, LEADERBOARD_SIZE);
+};
+
+// Add the score, dropping whatever falls off its leaderboard
+export const addMatchScore = (scores: MatchScore[], score: MatchScore) => {
+  const leaderboard = getLeaderboard([...scores, score], score.board, score.pairs);
+  const others = scores.filter(s => s.board !== score.board || s.pairs !== score.pairs);
+  return [...others, ...leaderboard];
+};
+
+// e.g. "12.3 s" or "1:05.2"
+export const formatMatchTime = (ms: number) => {
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)} s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
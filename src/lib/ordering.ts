@@ -0,0 +1,153 @@
+import { Flashcard } from "@/lib/flashcard";
+
+// Orders the cards of a study session. The resulting list of ids is stored
+// with the seed that produced it so a reload shows the same order.
+
+export type OrderingStrategy =
+  | 'shuffled'
+  | 'oldest-reviewed'
+  | 'most-reviewed'
+  | 'creation'
+  | 'tag-interleaved';
+
+export const ORDERING_LABELS: Record<OrderingStrategy, string> = {
+  'shuffled': "Shuffled",
+  'oldest-reviewed': "Oldest reviewed first",
+  'most-reviewed': "Most reviewed first",
+  'creation': "Creation order",
+  'tag-interleaved': "Interleave tags",
+};
+
+// A card failed during the session, waiting for its next learning step
+export interface RelearningItem {
+  itemId: string;
+  step: number; // index into the learning steps
+  dueAt: number; // when it may be shown again
+  queued: boolean; // already inserted back into cardIds
+}
+
+export interface SessionOrder {
+  key: string; // identifies the filters the order was built for
+  strategy: OrderingStrategy;
+  seed: number;
+  cardIds: string[];
+  position: number;
+  relearning?: RelearningItem[];
+}
+
+export const createSeed = () => Math.floor(Math.random() * 2 ** 32);
+
+// Mulberry32: small, fast PRNG that is reproducible from a 32-bit seed
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fisher-Yates shuffle driven by the seeded generator
+export const shuffleWithSeed = <T,>(items: T[], seed: number): T[] => {
+  const random = seededRandom(seed);
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const lastReviewedTime = (card: Flashcard) => {
+  return card.lastReviewed ? new Date(card.lastReviewed).getTime() : 0;
+};
+
+// Round-robin over the cards' first tag so consecutive cards differ in topic
+const interleaveByTag = (cards: Flashcard[]) => {
+  const groups = new Map<string, Flashcard[]>();
+  cards.forEach(card => {
+    const tag = card.tags[0] ?? '';
+    groups.set(tag, [...(groups.get(tag) ?? []), card]);
+  });
+
+  const queues = Array.from(groups.values());
+  const result: Flashcard[] = [];
+  while (result.length < cards.length) {
+    queues.forEach(queue => {
+      const card = queue.shift();
+      if (card) result.push(card);
+    });
+  }
+  return result;
+};
+
+export const orderCards = (
+  cards: Flashcard[],
+  strategy: OrderingStrategy,
+  seed: number
+): Flashcard[] => {
+  switch (strategy) {
+    case 'shuffled':
+      return shuffleWithSeed(cards, seed);
+    case 'oldest-reviewed':
+      return [...cards].sort((a, b) => lastReviewedTime(a) - lastReviewedTime(b));
+    case 'most-reviewed':
+      return [...cards].sort((a, b) => b.reviewCount - a.reviewCount);
+    case 'tag-interleaved':
+      return interleaveByTag(cards);
+    case 'creation':
+    default:
+      return [...cards];
+  }
+};
+
+// Drop items from the session (e.g. suspended cards), keeping the position on
+// the same upcoming card
+export const removeFromSessionOrder = (order: SessionOrder, itemIds: string[]): SessionOrder => {
+  const removed = new Set(itemIds);
+  const keptBefore = order.cardIds.slice(0, order.position).filter(id => !removed.has(id));
+  return {
+    ...order,
+    cardIds: order.cardIds.filter(id => !removed.has(id)),
+    position: keptBefore.length,
+    relearning: order.relearning?.filter(item => !removed.has(item.itemId)),
+  };
+};
+
+export const createSessionOrder = (
+  cards: Flashcard[],
+  strategy: OrderingStrategy,
+  key: string,
+  seed: number = createSeed()
+): SessionOrder => ({
+  key,
+  strategy,
+  seed,
+  cardIds: orderCards(cards, strategy, seed).map(card => card.id),
+  position: 0,
+});
+
+// Reorder only the cards still ahead in the session, e.g. when shuffling
+// midway. Answered cards and failed ones waiting to be relearned are kept.
+export const reorderSessionOrder = (
+  order: SessionOrder,
+  cards: Flashcard[], // the session's cards, looked up by id
+  strategy: OrderingStrategy,
+  key: string,
+  seed: number = createSeed()
+): SessionOrder => {
+  const cardsById = new Map(cards.map(card => [card.id, card]));
+  const upcoming = order.cardIds
+    .slice(order.position)
+    .map(id => cardsById.get(id))
+    .filter((card): card is Flashcard => Boolean(card));
+  return {
+    ...order,
+    key,
+    strategy,
+    seed,
+    cardIds: [...order.cardIds.slice(0, order.position), ...orderCards(upcoming, strategy, seed).map(card => card.id)],
+  };
+};
@@ -0,0 +1,55 @@
+import { normalizeAnswer } from "@/lib/answerMatching";
+import { shuffleWithSeed } from "@/lib/ordering";
+import { StudyItem } from "@/lib/studyItems";
+
+// Builds multiple-choice questions whose wrong options come from the answers
+// of other cards in the collection.
+
+export const QUIZ_OPTION_COUNT = 4;
+
+export interface QuizOption {
+  text: string;
+  correct: boolean;
+}
+
+// Higher scores make more convincing distractors: shared tags first, then
+// answers of a similar length
+const distractorScore = (card: StudyItem, candidate: StudyItem) => {
+  const sharedTags = candidate.tags.filter(tag => card.tags.includes(tag)).length;
+  const longest = Math.max(card.answer.length, candidate.answer.length, 1);
+  const lengthSimilarity = 1 - Math.abs(card.answer.length - candidate.answer.length) / longest;
+  return sharedTags * 2 + lengthSimilarity;
+};
+
+// Only items of the same kind and direction make sense as options, and never
+// another item of the card being asked
+export const pickDistractors = (card: StudyItem, pool: StudyItem[], count: number) => {
+  const seen = new Set([normalizeAnswer(card.answer)]);
+  const distractors: string[] = [];
+
+  const candidates = pool
+    .filter(candidate =>
+      candidate.cardId !== card.cardId &&
+      candidate.direction === card.direction &&
+      Boolean(candidate.cloze) === Boolean(card.cloze)
+    )
+    .sort((a, b) => distractorScore(card, b) - distractorScore(card, a));
+
+  for (const candidate of candidates) {
+    const normalized = normalizeAnswer(candidate.answer);
+    if (seen.has(normalized)) continue;
+    seen.add(normalized);
+    distractors.push(candidate.answer);
+    if (distractors.length === count) break;
+  }
+
+  return distractors;
+};
+
+export const buildQuizOptions = (card: StudyItem, pool: StudyItem[], seed: number): QuizOption[] => {
+  const options: QuizOption[] = [
+    { text: card.answer, correct: true },
+    ...pickDistractors(card, pool, QUIZ_OPTION_COUNT - 1).map(text => ({ text, correct: false })),
+  ];
+  return shuffleWithSeed(options, seed);
+};
@@ -0,0 +1,108 @@
+import { Flashcard } from "@/lib/flashcard";
+import { ReviewLogEntry } from "@/lib/reviewLog";
+
+// Recall times from the review log: how long it took to come up with the
+// answer (showing the card until flipping it), per card and per tag, and
+// how long grading took after the answer was revealed.
+
+// Longer times mean the card was left open, so they are not counted
+export const MAX_RECALL_MS = 5 * 60 * 1000;
+// A card needs this many timed reviews before it can be called slow
+export const MIN_TIMED_REVIEWS = 2;
+// Slow cards take at least this many times the overall median to recall
+export const SLOW_RECALL_FACTOR = 2;
+
+export interface RecallStats {
+  count: number;
+  averageMs: number;
+  medianMs: number;
+}
+
+export interface CardRecallStats extends RecallStats {
+  card: Flashcard;
+  slow: boolean; // a candidate for rewording or splitting
+}
+
+export interface TagRecallStats extends RecallStats {
+  tag: string;
+  grading: RecallStats; // flip to grade
+}
+
+// Quiz answers have no flip, so their whole response time is recall time
+export const getRecallTime = (entry: ReviewLogEntry) => {
+  const time = entry.recallMs ?? entry.responseMs;
+  return time !== undefined && time <= MAX_RECALL_MS ? time : undefined;
+};
+
+// Time from flipping the card to grading it
+export const getGradeTime = (entry: ReviewLogEntry) => {
+  if (entry.recallMs === undefined || entry.responseMs === undefined) return undefined;
+  const time = Math.max(0, entry.responseMs - entry.recallMs);
+  return time <= MAX_RECALL_MS ? time : undefined;
+};
+
+export const summarizeTimes = (times: number[]): RecallStats => {
+  if (times.length === 0) return { count: 0, averageMs: 0, medianMs: 0 };
+  const sorted = [...times].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    count: sorted.length,
+    averageMs: sorted.reduce((sum, time) => sum + time, 0) / sorted.length,
+    medianMs: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+  };
+};
+
+const addTime = (times: Map<string, number[]>, key: string, time: number) => {
+  const list = times.get(key) ?? [];
+  list.push(time);
+  times.set(key, list);
+};
+
+export const buildRecallStats = (log: ReviewLogEntry[], flashcards: Flashcard[]) => {
+  const cardsById = new Map(flashcards.map(card => [card.id, card]));
+  const byCard = new Map<string, number[]>();
+  const byTag = new Map<string, number[]>();
+  const gradingByTag = new Map<string, number[]>();
+  const all: number[] = [];
+  const allGrading: number[] = [];
+
+  log.forEach(entry => {
+    const card = cardsById.get(entry.cardId);
+    if (!card) return;
+
+    const gradeTime = getGradeTime(entry);
+    if (gradeTime !== undefined) {
+      allGrading.push(gradeTime);
+      card.tags.forEach(tag => addTime(gradingByTag, tag, gradeTime));
+    }
+
+    const time = getRecallTime(entry);
+    if (time === undefined) return;
+    all.push(time);
+    addTime(byCard, card.id, time);
+    card.tags.forEach(tag => addTime(byTag, tag, time));
+  });
+
+  // Cards and tags are sorted slowest first
+  const overall = summarizeTimes(all);
+  const cards: CardRecallStats[] = Array.from(byCard, ([cardId, times]) => {
+    const stats = summarizeTimes(times);
+    return {
+      card: cardsById.get(cardId)!,
+      ...stats,
+      slow: stats.count >= MIN_TIMED_REVIEWS && stats.medianMs >= overall.medianMs * SLOW_RECALL_FACTOR,
+    };
+  }).sort((a, b) => b.medianMs - a.medianMs);
+  const tags: TagRecallStats[] = Array.from(byTag, ([tag, times]) => ({
+    tag,
+    ...summarizeTimes(times),
+    grading: summarizeTimes(gradingByTag.get(tag) ?? []),
+  })).sort((a, b) => b.medianMs - a.medianMs);
+
+  return { overall, grading: summarizeTimes(allGrading), cards, tags };
+};
+
+// e.g. "850 ms" or "4.2 s"
+export const formatRecallTime = (ms: number) => {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
@@ -0,0 +1,88 @@
+import { Grade } from "@/lib/flashcard";
+import { RelearningItem, SessionOrder } from "@/lib/ordering";
+
+// In-session relearning: a failed card comes back after each learning step
+// (in minutes) and leaves the session once it has passed the last step.
+
+export const DEFAULT_LEARNING_STEPS = [1, 10];
+
+const MINUTE_MS = 60 * 1000;
+
+export const getRelearningItem = (order: SessionOrder, itemId: string) => {
+  return order.relearning?.find(item => item.itemId === itemId);
+};
+
+// Queued relearning items are waiting in cardIds at or after the position
+export const isRelearning = (order: SessionOrder, itemId: string) => {
+  return Boolean(getRelearningItem(order, itemId)?.queued);
+};
+
+// Move a failed or relearning item to its next step, or out of relearning
+// once it passes the last step (or is answered "easy")
+export const recordRelearningAnswer = (
+  order: SessionOrder,
+  itemId: string,
+  grade: Grade,
+  steps: number[],
+  now: number = Date.now()
+): SessionOrder => {
+  const current = getRelearningItem(order, itemId);
+  const others = (order.relearning ?? []).filter(item => item.itemId !== itemId);
+  if (!current && grade !== 'again') return order;
+
+  let step = 0;
+  if (current && grade === 'hard') step = current.step;
+  if (current && grade === 'good') step = current.step + 1;
+  if (grade === 'easy' || step >= steps.length) {
+    return { ...order, relearning: others };
+  }
+
+  return {
+    ...order,
+    relearning: [...others, { itemId, step, dueAt: now + steps[step] * MINUTE_MS, queued: false }],
+  };
+};
+
+// Move past the current card, slotting in the relearning item that is due
+// first. Once every other card is done, waiting items are shown early.
+export const advanceSessionOrder = (order: SessionOrder, now: number = Date.now()): SessionOrder => {
+  const position = order.position + 1;
+  const waiting = (order.relearning ?? [])
+    .filter(item => !item.queued)
+    .sort((a, b) => a.dueAt - b.dueAt);
+  const next = waiting[0];
+
+  if (!next || (next.dueAt > now && position < order.cardIds.length)) {
+    return { ...order, position };
+  }
+
+  return {
+    ...order,
+    position,
+    cardIds: [...order.cardIds.slice(0, position), next.itemId, ...order.cardIds.slice(position)],
+    relearning: (order.relearning ?? []).map(item =>
+      item === next ? { ...item, queued: true } : item
+    ),
+  };
+};
+
+// Failed cards waiting for their learning step, not yet back in cardIds
+export const countWaitingItems = (order: SessionOrder) => {
+  return (order.relearning ?? []).filter(item => !item.queued).length;
+};
+
+export const formatLearningStep = (minutes: number) => {
+  return minutes >= 60 ? `${Math.round(minutes / 60)} h` : `${minutes} min`;
+};
+
+// Minutes until an item in relearning comes back for each grade; undefined
+// means the grade ends its relearning
+export const previewRelearningSteps = (
+  item: RelearningItem,
+  steps: number[]
+): Record<Grade, number | undefined> => ({
+  again: steps[0],
+  hard: steps[item.step],
+  good: steps[item.step + 1],
+  easy: undefined,
+});
@@ -0,0 +1,75 @@
+import { getStudyItemId, Grade, StudyDirection } from "@/lib/flashcard";
+
+export const REVIEW_LOG_KEY = 'flashmaster-review-log';
+
+// How the card was answered in study mode
+export type ReviewMode = 'flip' | 'type' | 'quiz';
+
+// One answered card, kept so schedulers can learn from past reviews. The log
+// is append-only, so entries are in time order; optional fields are left out
+// when unset to keep it small in storage.
+export interface ReviewLogEntry {
+  cardId: string;
+  timestamp: number;
+  grade: Grade;
+  direction?: StudyDirection; // omitted for the forward direction
+  cloze?: number; // cloze number, for cloze cards
+  recallMs?: number; // from showing the card to flipping it
+  responseMs?: number; // from showing the card to grading it
+  sessionId?: string;
+  mode?: ReviewMode;
+}
+
+export type ReviewDetails = Pick<ReviewLogEntry, 'recallMs' | 'responseMs' | 'sessionId' | 'mode'>;
+
+export const createReviewLogEntry = (
+  cardId: string,
+  grade: Grade,
+  timestamp: number = Date.now(),
+  direction: StudyDirection = 'forward',
+  cloze?: number,
+  details: ReviewDetails = {}
+): ReviewLogEntry => ({
+  cardId,
+  timestamp,
+  grade,
+  ...(direction === 'reverse' && { direction }),
+  ...(cloze !== undefined && { cloze }),
+  ...(details.recallMs !== undefined && { recallMs: Math.round(details.recallMs) }),
+  ...(details.responseMs !== undefined && { responseMs: Math.round(details.responseMs) }),
+  ...(details.sessionId && { sessionId: details.sessionId }),
+  ...(details.mode && { mode: details.mode }),
+});
+
+// Index of the first entry at or after the timestamp
+const findFirstAfter = (log: ReviewLogEntry[], timestamp: number) => {
+  let low = 0;
+  let high = log.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (log[mid].timestamp < timestamp) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+// Entries reviewed from `from` up to, but not including, `to`
+export const getReviewsInRange = (log: ReviewLogEntry[], from: number, to: number = Infinity) => {
+  return log.slice(findFirstAfter(log, from), findFirstAfter(log, to));
+};
+
+// Group entries by study item, each list ordered from oldest to newest
+export const groupReviewsByCard = (log: ReviewLogEntry[]) => {
+  const byCard = new Map<string, ReviewLogEntry[]>();
+  log.forEach(entry => {
+    const itemId = getStudyItemId(entry.cardId, entry.direction, entry.cloze);
+    const reviews = byCard.get(itemId) ?? [];
+    reviews.push(entry);
+    byCard.set(itemId, reviews);
+  });
+  byCard.forEach(reviews => reviews.sort((a, b) => a.timestamp - b.timestamp));
+  return byCard;
+};
@@ -0,0 +1,36 @@
+import { Flashcard, Grade, SchedulingState } from "@/lib/flashcard";
+import { scheduleFsrs } from "@/lib/fsrs";
+import { scheduleLeitner } from "@/lib/leitner";
+import { scheduleSm2 } from "@/lib/sm2";
+import { StudySettings } from "@/lib/settings";
+
+export type ScheduleResult = SchedulingState & { mastered: boolean };
+
+// Compute the next scheduling state with the collection's chosen scheduler
+export const scheduleReview = (
+  card: Flashcard,
+  grade: Grade,
+  settings: StudySettings,
+  now: Date = new Date()
+): ScheduleResult => {
+  if (settings.scheduler === 'leitner') {
+    return scheduleLeitner(card, grade, settings.leitner, now);
+  }
+  // Other schedulers take the card out of its Leitner box
+  if (settings.scheduler === 'fsrs') {
+    return { ...scheduleFsrs(card, grade, settings.fsrs, now), box: undefined };
+  }
+  return { ...scheduleSm2(card, grade, now), box: undefined };
+};
+
+// Interval in days each grade would produce, for labelling the grade buttons
+export const previewIntervals = (
+  card: Flashcard,
+  settings: StudySettings,
+  now: Date = new Date()
+): Record<Grade, number> => ({
+  again: scheduleReview(card, 'again', settings, now).interval,
+  hard: scheduleReview(card, 'hard', settings, now).interval,
+  good: scheduleReview(card, 'good', settings, now).interval,
+  easy: scheduleReview(card, 'easy', settings, now).interval,
+});
@@ -0,0 +1,125 @@
+import { Flashcard, isDue, isNewCard } from "@/lib/flashcard";
+import { StudySettings } from "@/lib/settings";
+
+// Builds today's study queue from due reviews plus a daily allowance of new
+// cards, tracking what has been studied today in `flashmaster-daily-progress`.
+
+export const DAILY_PROGRESS_KEY = 'flashmaster-daily-progress';
+
+export interface DailyProgress {
+  day: string;
+  introducedCardIds: string[];
+  reviewsDone: number;
+}
+
+// A fixed set of study items studied instead of the daily queue, e.g. the
+// cards missed in an exam
+export const STUDY_FOCUS_KEY = 'study-focus';
+
+export interface StudyFocus {
+  id: string;
+  label: string;
+  itemIds: string[];
+}
+
+export type QueueCategory = 'new' | 'learning' | 'review';
+
+export interface StudyQueue<T extends Flashcard = Flashcard> {
+  cards: T[];
+  counts: Record<QueueCategory, number>;
+}
+
+// Local calendar day, e.g. "2024-05-31". Until the day start hour it is
+// still the previous day, so a late-night session counts for the evening.
+export const getDayKey = (date: Date = new Date(), dayStartHour = 0) => {
+  const shifted = new Date(date);
+  shifted.setHours(shifted.getHours() - dayStartHour);
+  const month = String(shifted.getMonth() + 1).padStart(2, '0');
+  const day = String(shifted.getDate()).padStart(2, '0');
+  return `${shifted.getFullYear()}-${month}-${day}`;
+};
+
+// The calendar day after a day key
+export const nextDayKey = (dayKey: string) => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return getDayKey(new Date(year, month - 1, day + 1));
+};
+
+// Buried cards sit out the rest of the day they were buried on
+export const isBuried = (card: Flashcard, dayStartHour = 0, now: Date = new Date()) => {
+  return card.buriedDay === getDayKey(now, dayStartHour);
+};
+
+// Stored progress only counts for the day it was written
+export const getTodayProgress = (
+  progress: DailyProgress | undefined,
+  dayStartHour = 0,
+  now: Date = new Date()
+): DailyProgress => {
+  const day = getDayKey(now, dayStartHour);
+  if (progress?.day === day) {
+    return progress;
+  }
+  return { day, introducedCardIds: [], reviewsDone: 0 };
+};
+
+export const recordDailyReview = (
+  progress: DailyProgress | undefined,
+  card: Flashcard,
+  dayStartHour = 0,
+  now: Date = new Date()
+): DailyProgress => {
+  const today = getTodayProgress(progress, dayStartHour, now);
+  if (isNewCard(card)) {
+    return {
+      ...today,
+      introducedCardIds: Array.from(new Set([...today.introducedCardIds, card.id])),
+    };
+  }
+  return { ...today, reviewsDone: today.reviewsDone + 1 };
+};
+
+export const getQueueCategory = (card: Flashcard): QueueCategory => {
+  if (isNewCard(card)) return 'new';
+  // Failed cards restart their repetitions and are relearned
+  return card.repetitions === 0 ? 'learning' : 'review';
+};
+
+export const buildStudyQueue = <T extends Flashcard>(
+  cards: T[],
+  progress: DailyProgress | undefined,
+  settings: StudySettings,
+  now: Date = new Date()
+): StudyQueue<T> => {
+  const today = getTodayProgress(progress, settings.dayStartHour, now);
+  const newAllowance = Math.max(0, settings.newCardsPerDay - today.introducedCardIds.length);
+  const reviewAllowance = Math.max(0, settings.maxReviewsPerDay - today.reviewsDone);
+
+  const learning: T[] = [];
+  const reviews: T[] = [];
+  const newCards: T[] = [];
+
+  cards.forEach(card => {
+    if (!isDue(card, now)) return;
+    const category = getQueueCategory(card);
+    if (category === 'new') newCards.push(card);
+    else if (category === 'learning') learning.push(card);
+    else reviews.push(card);
+  });
+
+  // Most overdue first, so the cap drops the least urgent reviews
+  const byDueDate = (a: Flashcard, b: Flashcard) =>
+    new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+
+  const dueCards = [...learning.sort(byDueDate), ...reviews.sort(byDueDate)].slice(0, reviewAllowance);
+  const introducedCards = newCards.slice(0, newAllowance);
+
+  return {
+    cards: [...dueCards, ...introducedCards],
+    counts: {
+      new: introducedCards.length,
+      learning: dueCards.filter(card => getQueueCategory(card) === 'learning').length,
+      review: dueCards.filter(card => getQueueCategory(card) === 'review').length,
+    },
+  };
+};
@@ -0,0 +1,72 @@
+import { CardDirection } from "@/lib/flashcard";
+import {
+  DEFAULT_FSRS_WEIGHTS,
+  DEFAULT_REQUEST_RETENTION,
+  FsrsParameters,
+} from "@/lib/fsrs";
+import { DEFAULT_LEECH_THRESHOLD, LeechSettings } from "@/lib/leech";
+import { DEFAULT_LEITNER_BOX_INTERVALS, LeitnerParameters } from "@/lib/leitner";
+import { DEFAULT_LEARNING_STEPS } from "@/lib/relearning";
+import { ShortcutBindings } from "@/lib/shortcuts";
+import { DailyGoal, DEFAULT_DAILY_GOAL } from "@/lib/streak";
+
+export type SchedulerType = 'sm2' | 'fsrs' | 'leitner';
+
+// Settings for the flashcard collection, persisted under `flashmaster-settings`
+export interface StudySettings {
+  scheduler: SchedulerType;
+  fsrs: FsrsParameters;
+  leitner: LeitnerParameters;
+  newCardsPerDay: number;
+  maxReviewsPerDay: number;
+  learningSteps: number[]; // minutes until a failed card is shown again in the session
+  tagDirections: Record<string, CardDirection>; // default direction per tag
+  leech: LeechSettings;
+  shortcuts: ShortcutBindings; // remapped keyboard shortcuts
+  dailyGoal: DailyGoal;
+  dayStartHour: number; // hour (0-23) at which a new study day begins
+}
+
+export const DEFAULT_SETTINGS: StudySettings = {
+  scheduler: 'sm2',
+  fsrs: {
+    weights: DEFAULT_FSRS_WEIGHTS,
+    requestRetention: DEFAULT_REQUEST_RETENTION,
+  },
+  leitner: {
+    boxIntervals: DEFAULT_LEITNER_BOX_INTERVALS,
+  },
+  newCardsPerDay: 20,
+  maxReviewsPerDay: 200,
+  learningSteps: DEFAULT_LEARNING_STEPS,
+  tagDirections: {},
+  leech: {
+    threshold: DEFAULT_LEECH_THRESHOLD,
+    suspend: false,
+  },
+  shortcuts: {},
+  dailyGoal: DEFAULT_DAILY_GOAL,
+  dayStartHour: 0,
+};
+
+// Fill in settings added after the stored copy was written
+export const resolveSettings = (stored: Partial<StudySettings> | undefined): StudySettings => ({
+  ...DEFAULT_SETTINGS,
+  ...stored,
+  fsrs: {
+    ...DEFAULT_SETTINGS.fsrs,
+    ...stored?.fsrs,
+  },
+  leitner: {
+    ...DEFAULT_SETTINGS.leitner,
+    ...stored?.leitner,
+  },
+  leech: {
+    ...DEFAULT_SETTINGS.leech,
+    ...stored?.leech,
+  },
+  dailyGoal: {
+    ...DEFAULT_SETTINGS.dailyGoal,
+    ...stored?.dailyGoal,
+  },
+});
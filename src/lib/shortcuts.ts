@@ -0,0 +1,174 @@
+// Keyboard shortcuts: every action that can be triggered from the keyboard,
+// its default keys and where it applies. Users can remap any of them; only
+// the changed bindings are stored in settings.
+
+// Where a shortcut applies. Global shortcuts work in every view, the others
+// only while that view or study mode is on screen.
+export type ShortcutScope = 'global' | 'study' | 'quiz' | 'cram' | 'autoplay';
+
+export type ShortcutAction =
+  | 'help'
+  | 'go-home'
+  | 'go-create'
+  | 'go-study'
+  | 'go-exam'
+  | 'go-analytics'
+  | 'go-settings'
+  | 'undo'
+  | 'flip'
+  | 'next-card'
+  | 'previous-card'
+  | 'grade-again'
+  | 'grade-hard'
+  | 'grade-good'
+  | 'grade-easy'
+  | 'bury'
+  | 'suspend'
+  | 'quiz-option-1'
+  | 'quiz-option-2'
+  | 'quiz-option-3'
+  | 'quiz-option-4'
+  | 'quiz-next'
+  | 'cram-flip'
+  | 'cram-missed'
+  | 'cram-got-it'
+  | 'autoplay-pause'
+  | 'autoplay-skip';
+
+export interface ShortcutDefinition {
+  label: string;
+  scope: ShortcutScope;
+  keys: string[]; // default keys, in the format produced by getEventKey
+}
+
+// Changed bindings only; anything missing uses its default keys
+export type ShortcutBindings = Partial<Record<ShortcutAction, string[]>>;
+
+export const SHORTCUT_SCOPE_LABELS: Record<ShortcutScope, string> = {
+  global: "Everywhere",
+  study: "Study",
+  quiz: "Multiple choice",
+  cram: "Cram",
+  autoplay: "Autoplay",
+};
+
+export const SHORTCUTS: Record<ShortcutAction, ShortcutDefinition> = {
+  'help': { label: "Show keyboard shortcuts", scope: 'global', keys: ['?'] },
+  'go-home': { label: "Go to Home", scope: 'global', keys: ['Alt+1'] },
+  'go-create': { label: "Go to Create", scope: 'global', keys: ['Alt+2'] },
+  'go-study': { label: "Go to Study", scope: 'global', keys: ['Alt+3'] },
+  'go-exam': { label: "Go to Exam", scope: 'global', keys: ['Alt+4'] },
+  'go-analytics': { label: "Go to Analytics", scope: 'global', keys: ['Alt+5'] },
+  'go-settings': { label: "Go to Settings", scope: 'global', keys: ['Alt+6'] },
+  'undo': { label: "Undo the last review or card change", scope: 'global', keys: ['Ctrl+z', 'Meta+z'] },
+  'flip': { label: "Flip card", scope: 'study', keys: ['Space'] },
+  'next-card': { label: "Next card", scope: 'study', keys: ['ArrowRight'] },
+  'previous-card': { label: "Previous card", scope: 'study', keys: ['ArrowLeft'] },
+  'grade-again': { label: "Grade: Again", scope: 'study', keys: ['1'] },
+  'grade-hard': { label: "Grade: Hard", scope: 'study', keys: ['2'] },
+  'grade-good': { label: "Grade: Good", scope: 'study', keys: ['3'] },
+  'grade-easy': { label: "Grade: Easy", scope: 'study', keys: ['4'] },
+  'bury': { label: "Bury card until tomorrow", scope: 'study', keys: ['b'] },
+  'suspend': { label: "Suspend card", scope: 'study', keys: ['s'] },
+  'quiz-option-1': { label: "Pick option 1", scope: 'quiz', keys: ['1'] },
+  'quiz-option-2': { label: "Pick option 2", scope: 'quiz', keys: ['2'] },
+  'quiz-option-3': { label: "Pick option 3", scope: 'quiz', keys: ['3'] },
+  'quiz-option-4': { label: "Pick option 4", scope: 'quiz', keys: ['4'] },
+  'quiz-next': { label: "Next question", scope: 'quiz', keys: ['Enter', 'ArrowRight'] },
+  'cram-flip': { label: "Flip card", scope: 'cram', keys: ['Space'] },
+  'cram-missed': { label: "Missed it", scope: 'cram', keys: ['1'] },
+  'cram-got-it': { label: "Got it", scope: 'cram', keys: ['2'] },
+  'autoplay-pause': { label: "Pause or resume", scope: 'autoplay', keys: ['Space'] },
+  'autoplay-skip': { label: "Skip ahead", scope: 'autoplay', keys: ['ArrowRight'] },
+};
+
+export const SHORTCUT_ACTIONS = Object.keys(SHORTCUTS) as ShortcutAction[];
+
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta'];
+
+// Normalise a key press to a binding such as "b", "Space", "?" or "Ctrl+z".
+// Returns undefined for a lone modifier key.
+export const getEventKey = (e: KeyboardEvent | React.KeyboardEvent) => {
+  if (MODIFIER_KEYS.includes(e.key)) return undefined;
+
+  // With a modifier held, some layouts turn the key into another character
+  // (Alt+1 is "¡" on a Mac), so letters and digits come from the key's code
+  const hasModifier = e.ctrlKey || e.altKey || e.metaKey;
+  const code = /^(?:Key|Digit)(.)$/.exec(e.code);
+  let key = hasModifier && code ? code[1].toLowerCase() : e.key;
+  if (key === ' ') key = 'Space';
+  if (key.length === 1) key = key.toLowerCase();
+
+  const modifiers = [
+    e.ctrlKey && 'Ctrl',
+    e.altKey && 'Alt',
+    e.metaKey && 'Meta',
+    // Shift is already part of printed characters like "?"
+    e.shiftKey && key.length > 1 && 'Shift',
+  ].filter(Boolean);
+  return [...modifiers, key].join('+');
+};
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Escape: "Esc",
+};
+
+// e.g. "Alt+1", "→", "B"
+export const formatShortcutKey = (key: string) => {
+  return key
+    .split('+')
+    .map(part => KEY_SYMBOLS[part] ?? (part.length === 1 ? part.toUpperCase() : part))
+    .join('+');
+};
+
+export const getShortcutKeys = (action: ShortcutAction, bindings: ShortcutBindings = {}) => {
+  return bindings[action] ?? SHORTCUTS[action].keys;
+};
+
+// Shortcuts that can be active at the same time: the same scope, or global
+const canOverlap = (a: ShortcutScope, b: ShortcutScope) => {
+  return a === b || a === 'global' || b === 'global';
+};
+
+export interface ShortcutConflict {
+  key: string;
+  actions: ShortcutAction[];
+}
+
+// Keys bound to more than one action that can be active together
+export const findShortcutConflicts = (bindings: ShortcutBindings = {}) => {
+  const conflicts: ShortcutConflict[] = [];
+  SHORTCUT_ACTIONS.forEach((action, index) => {
+    getShortcutKeys(action, bindings).forEach(key => {
+      SHORTCUT_ACTIONS.slice(index + 1).forEach(other => {
+        if (!canOverlap(SHORTCUTS[action].scope, SHORTCUTS[other].scope)) return;
+        if (!getShortcutKeys(other, bindings).includes(key)) return;
+        const existing = conflicts.find(conflict => conflict.key === key && conflict.actions.includes(action));
+        if (existing) {
+          if (!existing.actions.includes(other)) existing.actions.push(other);
+        } else {
+          conflicts.push({ key, actions: [action, other] });
+        }
+      });
+    });
+  });
+  return conflicts;
+};
+
+// Shortcuts stay out of the way while the user types
+export const isTypingTarget = (target: EventTarget | null) => {
+  return target instanceof HTMLInputElement
+    || target instanceof HTMLTextAreaElement
+    || target instanceof HTMLSelectElement
+    || (target instanceof HTMLElement && target.isContentEditable);
+};
+
+// The first key of an action, for hints such as "Press Space to flip"
+export const describeShortcut = (action: ShortcutAction, bindings: ShortcutBindings = {}) => {
+  const [key] = getShortcutKeys(action, bindings);
+  return key ? formatShortcutKey(key) : "—";
+};
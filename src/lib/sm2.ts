@@ -0,0 +1,58 @@
+import {
+  addDays,
+  DEFAULT_EASE_FACTOR,
+  Flashcard,
+  Grade,
+  MASTERED_INTERVAL_DAYS,
+  SchedulingState,
+} from "@/lib/flashcard";
+
+// SuperMemo-2 quality (0-5) for each answer grade
+const GRADE_QUALITY: Record<Grade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+const MIN_EASE_FACTOR = 1.3;
+
+// Compute the next scheduling state for a card using the SM-2 algorithm
+export const scheduleSm2 = (
+  card: Flashcard,
+  grade: Grade,
+  now: Date = new Date()
+): SchedulingState & { mastered: boolean } => {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = card.easeFactor ?? DEFAULT_EASE_FACTOR;
+  const previousInterval = card.interval ?? 0;
+  let repetitions = card.repetitions ?? 0;
+  let interval: number;
+
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    if (repetitions === 0) {
+      interval = 1;
+    } else if (repetitions === 1) {
+      interval = 6;
+    } else {
+      interval = Math.round(previousInterval * easeFactor);
+    }
+    repetitions += 1;
+  }
+
+  const nextEaseFactor = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    easeFactor: Number(nextEaseFactor.toFixed(2)),
+    interval,
+    repetitions,
+    dueDate: addDays(now, interval),
+    mastered: interval >= MASTERED_INTERVAL_DAYS,
+  };
+};
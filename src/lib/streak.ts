@@ -0,0 +1,106 @@
+import { MAX_RECALL_MS } from "@/lib/recallTime";
+import { ReviewLogEntry } from "@/lib/reviewLog";
+import { getDayKey, nextDayKey } from "@/lib/session";
+
+// Daily goal and study streak, worked out from the review log. A day keeps
+// the streak going when its goal is met. Going past the goal earns a streak
+// freeze, which is used up to cover a missed day instead of losing the streak.
+
+export type DailyGoalType = 'cards' | 'minutes';
+
+export interface DailyGoal {
+  type: DailyGoalType;
+  target: number; // cards reviewed or minutes spent per day
+}
+
+export const DEFAULT_DAILY_GOAL: DailyGoal = { type: 'cards', target: 20 };
+export const MAX_STREAK_FREEZES = 3;
+
+interface DayActivity {
+  cards: number;
+  ms: number;
+}
+
+// Reviews and time spent per study day. Reviews logged before response
+// times were recorded count towards cards only.
+export const getDailyActivity = (log: ReviewLogEntry[], dayStartHour = 0) => {
+  const days = new Map<string, DayActivity>();
+  log.forEach(entry => {
+    const day = getDayKey(new Date(entry.timestamp), dayStartHour);
+    const activity = days.get(day) ?? { cards: 0, ms: 0 };
+    activity.cards += 1;
+    activity.ms += Math.min(entry.responseMs ?? 0, MAX_RECALL_MS);
+    days.set(day, activity);
+  });
+  return days;
+};
+
+// Progress in the goal's unit: cards, or whole minutes
+export const getGoalAmount = (activity: DayActivity | undefined, goal: DailyGoal) => {
+  if (!activity) return 0;
+  return goal.type === 'cards' ? activity.cards : Math.floor(activity.ms / 60000);
+};
+
+export interface TodayGoal {
+  amount: number;
+  target: number;
+  met: boolean;
+  freezeTarget: number; // amount that earns a streak freeze, one past the goal
+}
+
+export interface StreakSummary {
+  current: number; // days in a row the goal was met, frozen days not counted
+  best: number;
+  freezes: number; // streak freezes available
+  today: TodayGoal;
+}
+
+export const buildStreak = (
+  log: ReviewLogEntry[],
+  goal: DailyGoal,
+  dayStartHour = 0,
+  now: Date = new Date()
+): StreakSummary => {
+  const activity = getDailyActivity(log, dayStartHour);
+  const todayKey = getDayKey(now, dayStartHour);
+  const target = Math.max(1, goal.target);
+  const freezeTarget = target + 1;
+
+  let current = 0;
+  let best = 0;
+  let freezes = 0;
+  const countDay = (amount: number) => {
+    current += 1;
+    best = Math.max(best, current);
+    if (amount >= freezeTarget) freezes = Math.min(MAX_STREAK_FREEZES, freezes + 1);
+  };
+
+  // Walk every day from the first review up to yesterday
+  const firstDay = Array.from(activity.keys()).sort()[0];
+  for (let day = firstDay; day && day < todayKey; day = nextDayKey(day)) {
+    const amount = getGoalAmount(activity.get(day), goal);
+    if (amount >= target) {
+      countDay(amount);
+    } else if (current > 0 && freezes > 0) {
+      freezes -= 1;
+    } else {
+      current = 0;
+    }
+  }
+
+  // Today only adds to the streak; it can't break it before it is over
+  const amount = getGoalAmount(activity.get(todayKey), goal);
+  if (amount >= target) countDay(amount);
+
+  return {
+    current,
+    best,
+    freezes,
+    today: { amount, target, met: amount >= target, freezeTarget },
+  };
+};
+
+export const formatGoalAmount = (amount: number, type: DailyGoalType) => {
+  if (type === 'minutes') return `${amount} min`;
+  return `${amount} ${amount === 1 ? "card" : "cards"}`;
+};
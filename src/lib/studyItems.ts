@@ -0,0 +1,143 @@
+import {
+  CardDirection,
+  createSchedulingState,
+  Flashcard,
+  getStudyItemId,
+  StudyDirection,
+  StudyItemState,
+} from "@/lib/flashcard";
+import { getClozeAnswer, getClozeNumbers, maskCloze } from "@/lib/cloze";
+
+// A study item is one direction of a flashcard, or one cloze of a cloze
+// card, shaped like a card so the scheduler, queue and ordering code can
+// treat all of them alike.
+export interface StudyItem extends Flashcard {
+  cardId: string;
+  direction: StudyDirection;
+  cloze?: {
+    number: number;
+    text: string; // the card's full cloze text
+    extra?: string; // optional notes shown with the answer
+  };
+}
+
+export const DIRECTION_LABELS: Record<CardDirection, string> = {
+  forward: "Question → Answer",
+  reverse: "Answer → Question",
+  both: "Both directions",
+};
+
+export const isClozeCard = (card: Flashcard) => card.type === 'cloze';
+
+// A card's own setting wins over the default of its first tag that has one
+export const resolveDirection = (
+  card: Flashcard,
+  tagDirections: Record<string, CardDirection>
+): CardDirection => {
+  if (card.direction) return card.direction;
+  const tag = card.tags.find(tag => tagDirections[tag]);
+  return tag ? tagDirections[tag] : 'forward';
+};
+
+const createItemState = (): StudyItemState => ({
+  ...createSchedulingState(),
+  mastered: false,
+  reviewCount: 0,
+});
+
+const withItemState = (card: Flashcard, state: StudyItemState) => ({
+  ...card,
+  easeFactor: state.easeFactor,
+  interval: state.interval,
+  repetitions: state.repetitions,
+  dueDate: state.dueDate,
+  stability: state.stability,
+  difficulty: state.difficulty,
+  box: state.box,
+  mastered: state.mastered,
+  reviewCount: state.reviewCount,
+  lastReviewed: state.lastReviewed,
+  lapses: state.lapses,
+});
+
+export const createStudyItem = (card: Flashcard, direction: StudyDirection): StudyItem => {
+  if (direction === 'forward') {
+    return { ...card, cardId: card.id, direction };
+  }
+
+  return {
+    ...withItemState(card, card.reverse ?? createItemState()),
+    id: getStudyItemId(card.id, 'reverse'),
+    question: card.answer,
+    answer: card.question,
+    cardId: card.id,
+    direction,
+  };
+};
+
+export const createClozeItem = (card: Flashcard, number: number): StudyItem => {
+  return {
+    ...withItemState(card, card.clozes?.[number] ?? createItemState()),
+    id: getStudyItemId(card.id, 'forward', number),
+    question: maskCloze(card.question, number),
+    answer: getClozeAnswer(card.question, number),
+    cardId: card.id,
+    direction: 'forward',
+    // The answer field of a cloze card holds its optional extra notes
+    cloze: { number, text: card.question, extra: card.answer.trim() || undefined },
+  };
+};
+
+const createClozeItems = (card: Flashcard) => {
+  return getClozeNumbers(card.question).map(number => createClozeItem(card, number));
+};
+
+// Suspended cards are left out
+export const buildStudyItems = (
+  cards: Flashcard[],
+  tagDirections: Record<string, CardDirection>
+): StudyItem[] => {
+  return cards.filter(card => !card.suspended).flatMap(card => {
+    if (isClozeCard(card)) {
+      return createClozeItems(card);
+    }
+    const direction = resolveDirection(card, tagDirections);
+    if (direction === 'both') {
+      return [createStudyItem(card, 'forward'), createStudyItem(card, 'reverse')];
+    }
+    return [createStudyItem(card, direction)];
+  });
+};
+
+// Every possible item of every card, e.g. as a source of quiz distractors
+export const buildAllStudyItems = (cards: Flashcard[]): StudyItem[] => {
+  return cards.flatMap(card => isClozeCard(card)
+    ? createClozeItems(card)
+    : [createStudyItem(card, 'forward'), createStudyItem(card, 'reverse')]
+  );
+};
+
+// Write the scheduling state of a reviewed item back onto its flashcard
+export const applyStudyItem = (card: Flashcard, item: StudyItem): Flashcard => {
+  const state: StudyItemState = {
+    easeFactor: item.easeFactor,
+    interval: item.interval,
+    repetitions: item.repetitions,
+    dueDate: item.dueDate,
+    stability: item.stability,
+    difficulty: item.difficulty,
+    box: item.box,
+    mastered: item.mastered,
+    reviewCount: item.reviewCount,
+    lastReviewed: item.lastReviewed,
+    lapses: item.lapses,
+  };
+
+  if (item.cloze) {
+    return { ...card, clozes: { ...card.clozes, [item.cloze.number]: state } };
+  }
+  if (item.direction === 'reverse') {
+    return { ...card, reverse: state };
+  }
+  return { ...card, ...state };
+};
@@ -0,0 +1,86 @@
+import { Flashcard, Grade } from "@/lib/flashcard";
+
+// A study session runs from the first review until it is finished, and can
+// be paused across reloads. Finished sessions are archived for analytics.
+
+export const STUDY_SESSION_KEY = 'study-session';
+export const SESSION_ARCHIVE_KEY = 'flashmaster-session-archive';
+
+export interface SessionReview {
+  reviewedAt: number;
+  grade: Grade;
+  interval: number;
+}
+
+export interface StudySession {
+  id: string;
+  startTime: number;
+  endTime?: number;
+  pausedAt?: number; // set while the session is paused
+  pausedMs: number; // time spent paused before pausedAt
+  cardsReviewed: number;
+  grades: Record<Grade, number>;
+  missedItemIds: string[]; // answered "again" at least once
+  masteredItemIds: string[]; // became mastered during the session
+  sessionProgress: Record<string, SessionReview>; // latest review per item
+}
+
+export const createStudySession = (now: number = Date.now()): StudySession => ({
+  id: now.toString(36) + Math.random().toString(36).substr(2),
+  startTime: now,
+  pausedMs: 0,
+  cardsReviewed: 0,
+  grades: { again: 0, hard: 0, good: 0, easy: 0 },
+  missedItemIds: [],
+  masteredItemIds: [],
+  sessionProgress: {},
+});
+
+// Sessions written before the lifecycle existed had no id and are dropped
+export const resolveStudySession = (stored: StudySession | null | undefined) => {
+  return stored?.id ? stored : null;
+};
+
+const addId = (ids: string[], id: string) => ids.includes(id) ? ids : [...ids, id];
+
+export const recordSessionReview = (
+  session: StudySession | null,
+  item: Flashcard,
+  updated: Flashcard,
+  grade: Grade,
+  now: number = Date.now()
+): StudySession => {
+  const current = session ?? createStudySession(now);
+  return {
+    ...current,
+    cardsReviewed: current.cardsReviewed + 1,
+    grades: { ...current.grades, [grade]: current.grades[grade] + 1 },
+    missedItemIds: grade === 'again' ? addId(current.missedItemIds, item.id) : current.missedItemIds,
+    masteredItemIds: !item.mastered && updated.mastered
+      ? addId(current.masteredItemIds, item.id)
+      : current.masteredItemIds,
+    sessionProgress: {
+      ...current.sessionProgress,
+      [item.id]: { reviewedAt: now, grade, interval: updated.interval },
+    },
+  };
+};
+
+export const pauseSession = (session: StudySession, now: number = Date.now()): StudySession => {
+  return session.pausedAt ? session : { ...session, pausedAt: now };
+};
+
+export const resumeSession = (session: StudySession, now: number = Date.now()): StudySession => {
+  if (!session.pausedAt) return session;
+  return { ...session, pausedAt: undefined, pausedMs: session.pausedMs + (now - session.pausedAt) };
+};
+
+export const finishSession = (session: StudySession, now: number = Date.now()): StudySession => {
+  return { ...resumeSession(session, now), endTime: now };
+};
+
+// Time actually spent studying, leaving out pauses
+export const getSessionDuration = (session: StudySession, now: number = Date.now()) => {
+  const end = session.endTime ?? session.pausedAt ?? now;
+  return Math.max(0, end - session.startTime - session.pausedMs);
+};
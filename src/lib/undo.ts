@@ -0,0 +1,91 @@
+import { Flashcard } from "@/lib/flashcard";
+import { ReviewLogEntry } from "@/lib/reviewLog";
+
+// Undo history for changes to the collection. Each entry keeps the exact
+// cards a change replaced and the review log entries it added, so undoing it
+// puts both back as they were. The history only lives as long as the page.
+
+export const UNDO_LIMIT = 50;
+
+export interface CardChange {
+  updated?: Flashcard[]; // changed or newly created cards
+  removed?: string[]; // ids of deleted cards
+  reviews?: ReviewLogEntry[]; // entries appended to the review log
+}
+
+interface CardSnapshot {
+  id: string;
+  card: Flashcard | null; // null when the change created the card
+  index: number; // position in the collection, to put deleted cards back
+}
+
+export interface UndoEntry {
+  id: string;
+  label: string; // what was changed, e.g. "Review" or "Delete card"
+  snapshots: CardSnapshot[];
+  reviews: ReviewLogEntry[];
+  restore?: () => void; // puts back state kept outside the collection, e.g. the study session
+}
+
+export const createUndoEntry = (
+  label: string,
+  cards: Flashcard[],
+  change: CardChange,
+  restore?: () => void
+): UndoEntry => {
+  const ids = [...(change.updated ?? []).map(card => card.id), ...(change.removed ?? [])];
+  const snapshots = Array.from(new Set(ids)).map(id => {
+    const index = cards.findIndex(card => card.id === id);
+    return { id, card: index >= 0 ? cards[index] : null, index };
+  });
+
+  return {
+    id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+    label,
+    snapshots,
+    reviews: change.reviews ?? [],
+    restore,
+  };
+};
+
+export const applyCardChange = (cards: Flashcard[], change: CardChange) => {
+  const updated = new Map((change.updated ?? []).map(card => [card.id, card]));
+  const removed = new Set(change.removed ?? []);
+  const result = cards
+    .filter(card => !removed.has(card.id))
+    .map(card => updated.get(card.id) ?? card);
+  const created = (change.updated ?? []).filter(card => !cards.some(c => c.id === card.id));
+  return [...result, ...created];
+};
+
+export const restoreCards = (cards: Flashcard[], snapshots: CardSnapshot[]) => {
+  let result = [...cards];
+  snapshots.forEach(({ id, card, index }) => {
+    const current = result.findIndex(c => c.id === id);
+    if (!card) {
+      result = result.filter(c => c.id !== id);
+    } else if (current >= 0) {
+      result[current] = card;
+    } else {
+      result.splice(Math.min(index, result.length), 0, card);
+    }
+  });
+  return result;
+};
+
+const isSameReview = (a: ReviewLogEntry, b: ReviewLogEntry) => {
+  return a.cardId === b.cardId
+    && a.timestamp === b.timestamp
+    && a.grade === b.grade
+    && a.direction === b.direction
+    && a.cloze === b.cloze;
+};
+
+export const removeReviewEntries = (log: ReviewLogEntry[], reviews: ReviewLogEntry[]) => {
+  if (reviews.length === 0) return log;
+  return log.filter(entry => !reviews.some(review => isSameReview(entry, review)));
+};
+
+export const pushUndoEntry = (stack: UndoEntry[], entry: UndoEntry) => {
+  return [...stack, entry].slice(-UNDO_LIMIT);
+};
@@ -1,27 +1,50 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Navigation } from "@/components/Navigation";
 import { HomePage } from "@/components/HomePage";
 import { CreateFlashcard } from "@/components/CreateFlashcard";
 import { StudyMode } from "@/components/StudyMode";
+import { ExamMode } from "@/components/ExamMode";
 import { Analytics } from "@/components/Analytics";
+import { Settings } from "@/components/Settings";
+import { ShortcutProvider } from "@/components/ShortcutProvider";
 import { useLocalStorage } from "@/hooks/useLocalStorage";
 import { useToast } from "@/hooks/use-toast";
+import {
+  createSchedulingState,
+  Flashcard,
+  migrateFlashcard,
+  NewFlashcard,
+} from "@/lib/flashcard";
+import { REVIEW_LOG_KEY, ReviewLogEntry } from "@/lib/reviewLog";
+import { resolveSettings, StudySettings } from "@/lib/settings";
+import {
+  applyCardChange,
+  CardChange,
+  createUndoEntry,
+  pushUndoEntry,
+  removeReviewEntries,
+  restoreCards,
+  UndoEntry,
+} from "@/lib/undo";
 
-interface Flashcard {
-  id: string;
-  question: string;
-  answer: string;
-  tags: string[];
-  mastered: boolean;
-  reviewCount: number;
-  lastReviewed?: Date;
-}
+type View = 'home' | 'create' | 'study' | 'exam' | 'analytics' | 'settings';
 
-type View = 'home' | 'create' | 'study' | 'analytics';
+// A card opened in the editor and the view to return to afterwards
+interface EditingState {
+  cardId: string;
+  returnView: View;
+}
 
 const Index = () => {
   const [currentView, setCurrentView] = useState<View>('home');
+  const [editing, setEditing] = useState<EditingState | null>(null);
   const [flashcards, setFlashcards] = useLocalStorage<Flashcard[]>('flashmaster-cards', []);
+  const [reviewLog, setReviewLog] = useLocalStorage<ReviewLogEntry[]>(REVIEW_LOG_KEY, []);
+  const [storedSettings, setSettings] = useLocalStorage<Partial<StudySettings>>('flashmaster-settings', {});
+  const settings = useMemo(() => resolveSettings(storedSettings), [storedSettings]);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  // Undo buttons on toasts outlive the render they were created in
+  const undoStackRef = useRef(undoStack);
   const { toast } = useToast();
 
   // Generate unique ID for new flashcards
@@ -34,14 +57,62 @@ const Index = () => {
     new Set(flashcards.flatMap(card => card.tags))
   ).sort();
 
+  const updateUndoStack = (stack: UndoEntry[]) => {
+    undoStackRef.current = stack;
+    setUndoStack(stack);
+  };
+
+  // Apply a change to the collection and remember how to take it back.
+  // Returns the id to undo it with.
+  const applyChange = (label: string, change: CardChange, restore?: () => void) => {
+    const entry = createUndoEntry(label, flashcards, change, restore);
+    setFlashcards(prev => applyCardChange(prev, change));
+    if (change.reviews?.length) {
+      setReviewLog(prev => [...prev, ...change.reviews]);
+    }
+    updateUndoStack(pushUndoEntry(undoStackRef.current, entry));
+    return entry.id;
+  };
+
+  // Undo the latest change. With an id (from a toast), only if that change
+  // is still the latest one.
+  const handleUndo = (entryId?: string) => {
+    const stack = undoStackRef.current;
+    const entry = stack[stack.length - 1];
+    if (!entry) {
+      toast({ title: "Nothing to undo" });
+      return;
+    }
+    if (entryId && entry.id !== entryId) {
+      toast({
+        title: "Can't undo that change",
+        description: "Newer changes have been made since. Undo those first.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFlashcards(prev => restoreCards(prev, entry.snapshots));
+    setReviewLog(prev => removeReviewEntries(prev, entry.reviews));
+    entry.restore?.();
+    updateUndoStack(stack.slice(0, -1));
+    toast({
+      title: `Undone: ${entry.label}`,
+      description: entry.reviews.length > 0
+        ? "The card and its review history are back as they were."
+        : "The card is back as it was.",
+    });
+  };
+
   // Handle flashcard creation
-  const handleFlashcardCreate = (newCard: Omit<Flashcard, 'id'>) => {
+  const handleFlashcardCreate = (newCard: NewFlashcard) => {
     const flashcard: Flashcard = {
+      ...createSchedulingState(),
       ...newCard,
       id: generateId(),
     };
     
-    setFlashcards(prev => [...prev, flashcard]);
+    const undoId = applyChange('Create card', { updated: [flashcard] });
     
     // Auto-navigate to study mode if this is the first card
     if (flashcards.length === 0) {
@@ -53,67 +124,138 @@ const Index = () => {
         setCurrentView('study');
       }, 1500);
     }
+    return undoId;
   };
 
   // Handle flashcard updates (mastered status, review count, etc.)
-  const handleFlashcardUpdate = (updatedCard: Flashcard) => {
-    setFlashcards(prev => 
-      prev.map(card => 
-        card.id === updatedCard.id ? updatedCard : card
-      )
-    );
+  const handleFlashcardUpdate = (updatedCard: Flashcard, label = 'Change card', restore?: () => void) => {
+    return applyChange(label, { updated: [updatedCard] }, restore);
+  };
+
+  // Open a card in the editor
+  const handleEditCard = (cardId: string) => {
+    setEditing({ cardId, returnView: currentView });
+    setCurrentView('create');
+  };
+
+  const handleFlashcardEdit = (updatedCard: Flashcard) => {
+    const undoId = handleFlashcardUpdate(updatedCard, 'Edit card');
+    handleCancelEdit();
+    return undoId;
+  };
+
+  // Deleted cards keep their review history, so undoing brings back the stats
+  const handleFlashcardDelete = (cardId: string) => {
+    const undoId = applyChange('Delete card', { removed: [cardId] });
+    handleCancelEdit();
+    return undoId;
+  };
+
+  const handleCancelEdit = () => {
+    setCurrentView(editing?.returnView ?? 'home');
+    setEditing(null);
+  };
+
+  const editingCard = editing ? flashcards.find(card => card.id === editing.cardId) : undefined;
+
+  // Record an answered card in the review history, together with the card's
+  // new schedule, as one change to undo
+  const handleReviewRecorded = (entry: ReviewLogEntry, flashcard?: Flashcard, restore?: () => void) => {
+    return applyChange('Review', {
+      updated: flashcard ? [flashcard] : [],
+      reviews: [entry],
+    }, restore);
+  };
+
+  const handleSettingsChange = (update: StudySettings | ((current: StudySettings) => StudySettings)) => {
+    setSettings(prev => update instanceof Function ? update(resolveSettings(prev)) : update);
   };
 
   // Handle view changes
   const handleViewChange = (view: View) => {
+    setEditing(null);
     setCurrentView(view);
   };
 
-  // Parse dates from localStorage (they come back as strings)
+  // Parse dates from localStorage (they come back as strings) and seed
+  // scheduling state for cards saved before spaced repetition existed
   useEffect(() => {
-    setFlashcards(prev => 
-      prev.map(card => ({
-        ...card,
-        lastReviewed: card.lastReviewed ? new Date(card.lastReviewed) : undefined,
-      }))
-    );
+    setFlashcards(prev => prev.map(migrateFlashcard));
   }, []);
 
   return (
-    <div className="min-h-screen bg-background">
-      <Navigation 
-        currentView={currentView} 
-        onViewChange={handleViewChange} 
-      />
+    <ShortcutProvider bindings={settings.shortcuts}>
+      <div className="min-h-screen bg-background">
+        <Navigation 
+          currentView={currentView} 
+          onViewChange={handleViewChange} 
+          onUndo={handleUndo}
+          canUndo={undoStack.length > 0}
+        />
       
-      <main>
-        {currentView === 'home' && (
-          <HomePage 
-            flashcards={flashcards}
-            onViewChange={handleViewChange}
-          />
-        )}
+        <main>
+          {currentView === 'home' && (
+            <HomePage 
+              flashcards={flashcards}
+              settings={settings}
+              reviewLog={reviewLog}
+              onViewChange={handleViewChange}
+            />
+          )}
+        
+          {currentView === 'create' && (
+            <CreateFlashcard 
+              key={editingCard?.id ?? 'new'}
+              onFlashcardCreate={handleFlashcardCreate}
+              existingTags={existingTags}
+              editingCard={editingCard}
+              onFlashcardEdit={handleFlashcardEdit}
+              onFlashcardDelete={handleFlashcardDelete}
+              onCancelEdit={handleCancelEdit}
+              onUndo={handleUndo}
+            />
+          )}
+        
+          {currentView === 'study' && (
+            <StudyMode 
+              flashcards={flashcards}
+              settings={settings}
+              onFlashcardUpdate={handleFlashcardUpdate}
+              onReviewRecorded={handleReviewRecorded}
+              onUndo={handleUndo}
+              onViewChange={handleViewChange}
+            />
+          )}
         
-        {currentView === 'create' && (
-          <CreateFlashcard 
-            onFlashcardCreate={handleFlashcardCreate}
-            existingTags={existingTags}
-          />
-        )}
+          {currentView === 'exam' && (
+            <ExamMode
+              flashcards={flashcards}
+              settings={settings}
+              onViewChange={handleViewChange}
+            />
+          )}
         
-        {currentView === 'study' && (
-          <StudyMode 
-            flashcards={flashcards}
-            onFlashcardUpdate={handleFlashcardUpdate}
-            onViewChange={handleViewChange}
-          />
-        )}
+          {currentView === 'analytics' && (
+            <Analytics
+              flashcards={flashcards}
+              settings={settings}
+              reviewLog={reviewLog}
+              onEditCard={handleEditCard}
+              onFlashcardUpdate={handleFlashcardUpdate}
+            />
+          )}
         
-        {currentView === 'analytics' && (
-          <Analytics flashcards={flashcards} />
-        )}
-      </main>
-    </div>
+          {currentView === 'settings' && (
+            <Settings
+              settings={settings}
+              onSettingsChange={handleSettingsChange}
+              reviewLog={reviewLog}
+              tags={existingTags}
+            />
+          )}
+        </main>
+      </div>
+    </ShortcutProvider>
   );
 };
 